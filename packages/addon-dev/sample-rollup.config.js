@@ -21,6 +21,15 @@ export default {
     // not everything in publicEntrypoints necessarily needs to go here.
     addon.appReexports(['components/welcome-page.js']),
 
+    // Uncomment this to generate the "exports" in your package.json from the
+    // public entrypoints above instead of maintaining them by hand. Passing
+    // `lint: true` fails the build instead when package.json is out of date.
+    // addon.exports({ declarationsDir: 'declarations' }),
+
+    // Uncomment this if your addon is written in TypeScript (or uses Glint) to
+    // emit type declarations alongside the build.
+    // addon.declarations('declarations'),
+
     // This babel config should *not* apply presets or compile away ES modules.
     // It exists only to provide development niceties for you, like automatic
     // template colocation.
@@ -4,6 +4,8 @@ import { ensureSymlinkSync, readJSONSync, writeJSONSync } from 'fs-extra';
 import { join } from 'path';
 import yargs from 'yargs/yargs';
 import type { Argv } from 'yargs';
+import { verify } from './verify';
+import { port } from './port';
 
 function commonArgs(yargs: Argv) {
   return yargs
@@ -90,6 +92,66 @@ yargs(process.argv.slice(2))
       }
     }
   )
+  .command(
+    'verify',
+    `Checks a built v2 addon against the ember-addon metadata and exports in its package.json`,
+    (yargs) => {
+      return yargs
+        .option('addonDir', {
+          type: 'string',
+          description: 'Path to your addon',
+          default: process.cwd(),
+        })
+        .option('destDir', {
+          type: 'string',
+          description: 'Where your addon was built to, relative to addonDir',
+          default: 'dist',
+        });
+    },
+    function (opts) {
+      let { addonDir, destDir } = opts;
+      let problems = verify(addonDir, destDir);
+      for (let { severity, message } of problems) {
+        console.error(`${severity}: ${message}`);
+      }
+      if (problems.some((problem) => problem.severity === 'error')) {
+        process.exit(-1);
+      }
+    }
+  )
+  .command(
+    'port <destination>',
+    `Scaffolds a v2 addon (with an embedded test app) in destination, based on the v1 addon in addonDir`,
+    (yargs) => {
+      return commonArgs(yargs).positional('destination', {
+        type: 'string',
+        description: 'Where to write the v2 addon',
+        demandOption: true,
+      });
+    },
+    function (opts) {
+      let { addonDir, destination, testAppDir } = opts;
+      let report;
+      try {
+        report = port({ addonDir, destination, testAppDir });
+      } catch (err) {
+        console.error(err.message);
+        process.exit(-1);
+      }
+      let { appReexports, manualSteps } = report;
+      console.log(
+        `Wrote a v2 addon to ${destination} with ${
+          appReexports.length
+        } app reexports and its test app in ${join(destination, testAppDir)}.`
+      );
+      if (manualSteps.length > 0) {
+        console.log(`\nThese parts of the v1 addon need to be ported by hand:`);
+        for (let step of manualSteps) {
+          console.log(`  - ${step}`);
+        }
+      }
+    }
+  )
   .demandCommand()
   .strictCommands()
   .help().argv;
@@ -0,0 +1,566 @@
+import {
+  copySync,
+  existsSync,
+  outputFileSync,
+  readdirSync,
+  readFileSync,
+  readJSONSync,
+  writeJSONSync,
+} from 'fs-extra';
+import { dirname, extname, join, relative } from 'path';
+import walkSync from 'walk-sync';
+import type { AddonTreePath, PackageInfo } from '@embroider/core';
+import { defaultTreePaths, dynamicTreeHooks } from '@embroider/core';
+
+export interface PortOptions {
+  // the v1 addon that we're porting
+  addonDir: string;
+  // where the new v2 addon gets written
+  destination: string;
+  // where the test app goes, relative to destination
+  testAppDir: string;
+}
+
+export interface PortReport {
+  appReexports: string[];
+  // things in the v1 addon that can't be carried over automatically and need a
+  // human to port them
+  manualSteps: string[];
+}
+
+// The parts of a v1 addon's package.json that we read or carry over.
+interface V1AddonPackageJSON extends Omit<PackageInfo, 'ember-addon'> {
+  description?: string;
+  repository?: unknown;
+  license?: string;
+  author?: unknown;
+  scripts?: Record<string, string>;
+  engines?: Record<string, string>;
+  ember?: unknown;
+  'ember-addon'?: {
+    main?: string;
+    version?: number;
+    configPath?: string;
+  };
+}
+
+interface TestAppPackageJSON {
+  name: string;
+  version: string;
+  private: true;
+  scripts?: Record<string, string>;
+  devDependencies: Record<string, string>;
+  ember?: unknown;
+}
+
+// What we look at in a v1 addon's index.js. Every hook is an arbitrary
+// function, we only care whether it's there.
+interface V1AddonMainModule {
+  treePaths?: Partial<Record<AddonTreePath, string>>;
+  [hook: string]: unknown;
+}
+
+// Hooks that make an addon's index.js do something other than declare its
+// name. None of them exist for v2 addons.
+const dynamicHooks = [
+  'included',
+  'contentFor',
+  'config',
+  'options',
+  'setupPreprocessorRegistry',
+  'preprocessTree',
+  'postprocessTree',
+  'serverMiddleware',
+  'testemMiddleware',
+  ...dynamicTreeHooks,
+];
+
+// These implement standard features of v2 addons, so the addon doesn't need
+// them as dependencies anymore.
+const v1BuildDependencies = new Set([
+  'ember-cli-babel',
+  'ember-cli-htmlbars',
+  'ember-cli-htmlbars-inline-precompile',
+  'ember-cli-typescript',
+  'ember-auto-import',
+  '@embroider/macros',
+]);
+
+const addonShimRange = `^${
+  readJSONSync(require.resolve('@embroider/addon-shim/package.json')).version
+}`;
+
+// the generated rollup and babel configs use these. We hand out the same
+// ranges that addon-dev itself is developed and tested against.
+function v2BuildDependencies(typescript: boolean): {
+  [name: string]: string;
+} {
+  let ownPkg = readJSONSync(join(__dirname, '..', 'package.json'));
+  let names = [
+    '@babel/core',
+    '@babel/plugin-proposal-decorators',
+    '@babel/plugin-transform-class-properties',
+    ...(typescript ? ['@babel/plugin-transform-typescript'] : []),
+    '@rollup/plugin-babel',
+    'rollup',
+  ];
+  return {
+    ...Object.fromEntries(
+      names.map((name) => [name, ownPkg.devDependencies[name]])
+    ),
+    '@embroider/addon-dev': `^${ownPkg.version}`,
+  };
+}
+
+export function port(opts: PortOptions): PortReport {
+  let { addonDir, destination, testAppDir } = opts;
+  let pkg: V1AddonPackageJSON = readJSONSync(join(addonDir, 'package.json'));
+  if (!pkg.keywords?.includes('ember-addon')) {
+    throw new Error(`${addonDir} is not an ember addon`);
+  }
+  if (pkg['ember-addon']?.version === 2) {
+    throw new Error(`${pkg.name} is already a v2 addon`);
+  }
+  if (existsSync(destination) && readdirSync(destination).length > 0) {
+    throw new Error(`${destination} already exists and is not empty`);
+  }
+
+  let manualSteps: string[] = [];
+
+  // a customized ember-addon.main moves the addon's root, and the stock trees
+  // are relative to it
+  let main = join(addonDir, pkg['ember-addon']?.main ?? 'index.js');
+  let root = dirname(main);
+  let mainModule = loadMainModule(main, manualSteps);
+  // just like compat's V1Addon, we honor customized `treePaths`
+  let treePaths: Record<AddonTreePath, string> = {
+    ...defaultTreePaths,
+    ...mainModule?.treePaths,
+  };
+  // like ember-cli, we ignore trees that have nothing but dotfiles (.gitkeep)
+  // in them
+  let tree = (treeName: AddonTreePath) => {
+    let dir = join(root, treePaths[treeName]);
+    return existsSync(dir) && listFiles(dir).length > 0 ? dir : undefined;
+  };
+
+  for (let hook of dynamicHooks) {
+    if (mainModule?.[hook]) {
+      manualSteps.push(
+        `index.js implements "${hook}", which v2 addons can't do. Replace it with @embroider/macros, ember-auto-import, or instructions for your users (see "Part 3" of the porting guide).`
+      );
+    }
+  }
+
+  let srcDir = join(destination, 'src');
+  let addonTree = tree('addon');
+  if (addonTree) {
+    copySync(addonTree, srcDir, {
+      filter: (src) => relative(addonTree!, src).split(/[\\/]/)[0] !== 'styles',
+    });
+  }
+  let addonTestSupport = tree('addon-test-support');
+  if (addonTestSupport) {
+    copySync(addonTestSupport, join(srcDir, 'test-support'));
+  }
+
+  let addonStyles = tree('addon-styles');
+  let hasStyles = false;
+  if (addonStyles) {
+    copySync(addonStyles, join(srcDir, 'styles'));
+    hasStyles = true;
+    manualSteps.push(
+      `${relative(
+        addonDir,
+        addonStyles
+      )} was copied to src/styles, but v2 addons don't include styles automatically. Import them from the modules that need them (or tell your users to).`
+    );
+  }
+  if (tree('styles')) {
+    manualSteps.push(
+      `${relative(
+        addonDir,
+        tree('styles')!
+      )} was merged into the app's styles, which v2 addons can't do. Move it into src/styles and import it from a module.`
+    );
+  }
+  if (tree('vendor')) {
+    manualSteps.push(
+      `${relative(
+        addonDir,
+        tree('vendor')!
+      )} was not copied. Import those dependencies from your modules instead, the way you would with ember-auto-import.`
+    );
+  }
+  if (existsSync(join(root, 'blueprints'))) {
+    manualSteps.push(
+      `blueprints were not copied. v2 addons can't have blueprints, so publish them from a separate v1 addon if you still need them.`
+    );
+  }
+  let addonConfig = join(root, 'config', 'environment.js');
+  if (
+    existsSync(addonConfig) &&
+    !/return\s*\{\s*\}/.test(readFileSync(addonConfig, 'utf8'))
+  ) {
+    manualSteps.push(
+      `config/environment.js contributes to the app's config, which v2 addons can't do. Have your users configure your addon another way, like with @embroider/macros' setConfig.`
+    );
+  }
+
+  let appReexports = findAppReexports(
+    pkg.name,
+    tree('app'),
+    addonDir,
+    manualSteps
+  );
+
+  let publicTree = tree('public');
+  if (publicTree) {
+    copySync(publicTree, join(destination, 'public'));
+    manualSteps.push(
+      `public assets are now served from /${pkg.name}/public/ instead of /${pkg.name}/, update any URLs that point at them.`
+    );
+  }
+
+  let sourceExtensions = new Set(
+    existsSync(srcDir)
+      ? walkSync(srcDir, { directories: false }).map((name) => extname(name))
+      : []
+  );
+
+  let testAppPkg = portTestApp(
+    addonDir,
+    join(destination, testAppDir),
+    pkg,
+    manualSteps
+  );
+
+  writeJSONSync(
+    join(destination, 'package.json'),
+    addonPackageJSON(pkg, testAppPkg, {
+      testAppDir,
+      hasPublic: Boolean(publicTree),
+      usesTypeScript: usesTypeScript(sourceExtensions),
+    }),
+    { spaces: 2 }
+  );
+  // The ported addon can't be shim-free: ember-cli (and therefore the test
+  // app, and Embroider apps too) can only load a v2 addon through addonV1Shim.
+  outputFileSync(
+    join(destination, 'addon-main.js'),
+    `const { addonV1Shim } = require('@embroider/addon-shim');\nmodule.exports = addonV1Shim(__dirname);\n`
+  );
+  outputFileSync(
+    join(destination, 'babel.config.json'),
+    babelConfig(sourceExtensions)
+  );
+  outputFileSync(
+    join(destination, 'rollup.config.mjs'),
+    rollupConfig({
+      appReexports,
+      sourceExtensions,
+      hasStyles,
+      hasPublic: Boolean(publicTree),
+    })
+  );
+  outputFileSync(
+    join(destination, '.gitignore'),
+    ['/dist', '/node_modules', `/${testAppDir}/node_modules`, ''].join('\n')
+  );
+
+  return { appReexports, manualSteps };
+}
+
+function loadMainModule(
+  main: string,
+  manualSteps: string[]
+): V1AddonMainModule | undefined {
+  if (!existsSync(main)) {
+    return undefined;
+  }
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    return require(main);
+  } catch (err) {
+    manualSteps.push(
+      `${main} could not be loaded (${err.message}), so it was not checked for build-time hooks. Check it by hand.`
+    );
+    return undefined;
+  }
+}
+
+// Every file in a v1 addon's app tree is supposed to be nothing but a
+// reexport of the same-named module in the addon. Those become appReexports,
+// anything else needs a human.
+function findAppReexports(
+  packageName: string,
+  appTree: string | undefined,
+  addonDir: string,
+  manualSteps: string[]
+): string[] {
+  if (!appTree) {
+    return [];
+  }
+  let reexports: string[] = [];
+  for (let name of listFiles(appTree)) {
+    if (name.startsWith('styles/')) {
+      continue;
+    }
+    let moduleName = name.replace(/\.\w+$/, '');
+    let src = readFileSync(join(appTree, name), 'utf8');
+    let match =
+      /^\s*export\s*\{\s*default\s*\}\s*from\s*['"]([^'"]+)['"];?\s*$/.exec(
+        src
+      );
+    if (match?.[1] === `${packageName}/${moduleName}`) {
+      reexports.push(`${moduleName}.js`);
+    } else {
+      manualSteps.push(
+        `${relative(
+          addonDir,
+          join(appTree, name)
+        )} is not a plain reexport of ${packageName}/${moduleName}. Move its code into src and reexport it (see "Part 3" of the porting guide), then add it to appReexports.`
+      );
+    }
+  }
+  return reexports;
+}
+
+// The dummy app becomes a test app that lives inside the addon and gets wired
+// up with `addon-dev link-test-app`.
+function portTestApp(
+  addonDir: string,
+  testAppDest: string,
+  pkg: V1AddonPackageJSON,
+  manualSteps: string[]
+): TestAppPackageJSON {
+  let dummyDir = join(addonDir, 'tests', 'dummy');
+  if (existsSync(dummyDir)) {
+    copySync(dummyDir, testAppDest, {
+      // this still says the dummy app uses the addon blueprint, which would
+      // confuse ember-cli-update
+      filter: (src) => !src.endsWith('ember-cli-update.json'),
+    });
+  }
+  let testsDir = join(addonDir, 'tests');
+  if (existsSync(testsDir)) {
+    copySync(testsDir, join(testAppDest, 'tests'), {
+      filter: (src) => relative(testsDir, src).split(/[\\/]/)[0] !== 'dummy',
+    });
+  }
+  let configPath = pkg['ember-addon']?.configPath;
+  if (configPath && configPath !== 'tests/dummy/config') {
+    copySync(join(addonDir, configPath), join(testAppDest, 'config'));
+  }
+  for (let file of ['testem.js', '.ember-cli', 'config/ember-try.js']) {
+    if (existsSync(join(addonDir, file))) {
+      copySync(join(addonDir, file), join(testAppDest, file));
+    }
+  }
+  let emberCliBuild = join(addonDir, 'ember-cli-build.js');
+  if (existsSync(emberCliBuild)) {
+    outputFileSync(
+      join(testAppDest, 'ember-cli-build.js'),
+      readFileSync(emberCliBuild, 'utf8')
+        .replace(
+          /ember-cli\/lib\/broccoli\/ember-addon/g,
+          'ember-cli/lib/broccoli/ember-app'
+        )
+        .replace(/\bEmberAddon\b/g, 'EmberApp')
+    );
+  }
+
+  // the dummy app's module prefix was "dummy"
+  if (existsSync(testAppDest)) {
+    for (let name of walkSync(testAppDest, {
+      globs: ['**/*.{js,ts,gjs,gts,hbs,html}'],
+      directories: false,
+    })) {
+      let filename = join(testAppDest, name);
+      let src = readFileSync(filename, 'utf8');
+      let renamed = src
+        .replace(/(['"])dummy(['"/])/g, '$1test-app$2')
+        .replace(/assets\/dummy\./g, 'assets/test-app.');
+      if (renamed !== src) {
+        outputFileSync(filename, renamed);
+      }
+    }
+  } else {
+    manualSteps.push(
+      `there was no dummy app to turn into a test app, so the test app is empty.`
+    );
+  }
+
+  // The test app gets everything the v1 addon depended on, because the build
+  // tooling (ember-cli-babel, ember-cli-htmlbars and so on) that used to
+  // compile the addon still compiles the test app. And it depends on the addon
+  // itself, which `addon-dev link-test-app` puts into its node_modules.
+  let testAppPkg: TestAppPackageJSON = {
+    name: 'test-app',
+    version: '0.0.0',
+    private: true,
+    scripts: pkg.scripts,
+    devDependencies: sortObject({
+      ...pkg.dependencies,
+      ...pkg.devDependencies,
+      [pkg.name]: '*',
+    }),
+    ember: pkg.ember,
+  };
+  writeJSONSync(join(testAppDest, 'package.json'), testAppPkg, { spaces: 2 });
+  return testAppPkg;
+}
+
+function addonPackageJSON(
+  pkg: V1AddonPackageJSON,
+  testAppPkg: TestAppPackageJSON,
+  opts: { testAppDir: string; hasPublic: boolean; usesTypeScript: boolean }
+) {
+  let { testAppDir, hasPublic } = opts;
+  // like `addon-dev sync-dev-deps`, everything but the addon itself
+  let testAppDevDependencies = { ...testAppPkg.devDependencies };
+  delete testAppDevDependencies[pkg.name];
+  let dependencies: { [name: string]: string } = {};
+  for (let [name, range] of Object.entries(pkg.dependencies ?? {})) {
+    if (!v1BuildDependencies.has(name)) {
+      dependencies[name] = range;
+    }
+  }
+
+  return {
+    name: pkg.name,
+    version: pkg.version,
+    description: pkg.description,
+    keywords: pkg.keywords,
+    repository: pkg.repository,
+    license: pkg.license,
+    author: pkg.author,
+    // addon.exports() in rollup.config.mjs keeps these up to date once you
+    // build
+    exports: {
+      './*': './dist/*.js',
+      './addon-main.js': './addon-main.js',
+      './package.json': './package.json',
+    },
+    files: hasPublic
+      ? ['addon-main.js', 'dist', 'public']
+      : ['addon-main.js', 'dist'],
+    scripts: {
+      build: 'rollup --config',
+      start: 'rollup --config --watch',
+      prepack: 'rollup --config',
+      prepare: `addon-dev link-test-app --testAppDir ${testAppDir}`,
+      test: `cd ${testAppDir} && ember test`,
+    },
+    dependencies: sortObject({
+      ...dependencies,
+      '@embroider/addon-shim': addonShimRange,
+    }),
+    peerDependencies: pkg.peerDependencies,
+    // this is what `addon-dev sync-dev-deps` would give us, because the test
+    // app shares our node_modules through `addon-dev link-test-app`
+    devDependencies: sortObject({
+      ...testAppDevDependencies,
+      ...v2BuildDependencies(opts.usesTypeScript),
+    }),
+    engines: pkg.engines,
+    ember: pkg.ember,
+    'ember-addon': {
+      type: 'addon',
+      version: 2,
+      main: 'addon-main.js',
+    },
+  };
+}
+
+function babelConfig(sourceExtensions: Set<string>): string {
+  let plugins: unknown[] = [];
+  if (usesTypeScript(sourceExtensions)) {
+    plugins.push([
+      '@babel/plugin-transform-typescript',
+      { allExtensions: true, onlyRemoveTypeImports: true },
+    ]);
+  }
+  plugins.push(
+    '@embroider/addon-dev/template-colocation-plugin',
+    ['@babel/plugin-proposal-decorators', { legacy: true }],
+    '@babel/plugin-transform-class-properties'
+  );
+  return JSON.stringify({ plugins }, null, 2) + '\n';
+}
+
+function rollupConfig(opts: {
+  appReexports: string[];
+  sourceExtensions: Set<string>;
+  hasStyles: boolean;
+  hasPublic: boolean;
+}): string {
+  let extensions = ['.js', '.ts', '.gjs', '.gts', '.hbs'].filter(
+    (ext) => ext === '.js' || opts.sourceExtensions.has(ext)
+  );
+  let usesGJS =
+    opts.sourceExtensions.has('.gjs') || opts.sourceExtensions.has('.gts');
+  let lines = [
+    `import { babel } from '@rollup/plugin-babel';`,
+    `import { Addon } from '@embroider/addon-dev/rollup';`,
+    ``,
+    `const addon = new Addon({`,
+    `  srcDir: 'src',`,
+    `  destDir: 'dist',`,
+    `});`,
+    ``,
+    `export default {`,
+    `  output: addon.output(),`,
+    ``,
+    `  plugins: [`,
+    `    // Everything in a v1 addon was importable, so everything stays public.`,
+    `    // Narrow this down to the modules your users should import.`,
+    `    addon.publicEntrypoints(['**/*.js']),`,
+    ``,
+    `    // These were the reexports in your v1 addon's app directory.`,
+    `    addon.appReexports(${list(opts.appReexports)}),`,
+    ``,
+    `    addon.exports(),`,
+    `    addon.dependencies(),`,
+    ``,
+    `    babel({`,
+    `      babelHelpers: 'bundled',`,
+    `      extensions: ${list(extensions)},`,
+    `    }),`,
+    ``,
+    `    addon.hbs(),`,
+  ];
+  if (usesGJS) {
+    lines.push(`    addon.gjs(),`);
+  }
+  if (opts.hasStyles) {
+    lines.push(`    addon.keepAssets(['**/*.css']),`);
+  }
+  if (opts.hasPublic) {
+    lines.push(
+      `    addon.publicAssets('public', { include: ['**/*'], exclude: [] }),`
+    );
+  }
+  lines.push(`    addon.clean(),`, `  ],`, `};`, ``);
+  return lines.join('\n');
+}
+
+function list(items: string[]): string {
+  return `[${items.map((item) => `'${item}'`).join(', ')}]`;
+}
+
+function usesTypeScript(sourceExtensions: Set<string>): boolean {
+  return sourceExtensions.has('.ts') || sourceExtensions.has('.gts');
+}
+
+function listFiles(dir: string): string[] {
+  return walkSync(dir, { directories: false, ignore: ['**/.*'] });
+}
+
+function sortObject(obj: { [name: string]: string }): {
+  [name: string]: string;
+} {
+  return Object.fromEntries(
+    Object.entries(obj).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
@@ -2,6 +2,7 @@ import { readJsonSync, writeJsonSync } from 'fs-extra';
 import { extname } from 'path';
 import minimatch from 'minimatch';
 import type { Plugin } from 'rollup';
+import { writeAddonChangeManifest } from '@embroider/core';
 
 export default function appReexports(opts: {
   from: string;
@@ -42,6 +43,7 @@ export default function appReexports(opts: {
           'app-js': appJS,
         });
         writeJsonSync('package.json', pkg, { spaces: 2 });
+        writeAddonChangeManifest(process.cwd(), ['ember-addon.app-js']);
       }
     },
   };
@@ -0,0 +1,181 @@
+import { spawn } from 'child_process';
+import {
+  existsSync,
+  readFileSync,
+  removeSync,
+  outputFileSync,
+  outputJSONSync,
+} from 'fs-extra';
+import walkSync from 'walk-sync';
+import { delimiter, join, resolve } from 'path';
+import type { Plugin } from 'rollup';
+
+export default function declarations(opts: {
+  declarationsDir: string;
+  command?: string;
+}): Plugin {
+  let generated: Promise<void> | undefined;
+  let runs = 0;
+  let entrypoints: { fileName: string; templateOnly: boolean }[] = [];
+
+  return {
+    name: 'addon-declarations',
+
+    buildStart() {
+      // The declarations don't feed into anything else in the rollup build, so
+      // we kick them off here and let them run alongside the rest of the build
+      // instead of making rollup wait.
+      let previous = generated;
+      let thisRun = ++runs;
+      generated = (async () => {
+        // In watch mode a rebuild can start while the last run is still
+        // writing, so we wait for it rather than deleting its output out from
+        // under it. A run that a newer rebuild already replaced has nothing
+        // left to do.
+        await previous?.catch(() => {});
+        if (thisRun !== runs) {
+          return;
+        }
+        removeSync(opts.declarationsDir);
+        await run(opts.command ?? defaultCommand(opts.declarationsDir));
+        fixImportExtensions(opts.declarationsDir);
+      })();
+      // rollup would otherwise report an unhandled rejection before writeBundle
+      // gets a chance to surface the failure
+      generated.catch(() => {});
+    },
+
+    generateBundle(_, bundle) {
+      entrypoints = [];
+      for (let output of Object.values(bundle)) {
+        if (
+          output.type !== 'chunk' ||
+          !output.isEntry ||
+          output.fileName.startsWith('_app_/')
+        ) {
+          continue;
+        }
+        let id = output.facadeModuleId;
+        entrypoints.push({
+          fileName: output.fileName,
+          templateOnly: Boolean(
+            id &&
+              (id.endsWith('.hbs') ||
+                this.getModuleInfo(id)?.meta?.['rollup-hbs-plugin'])
+          ),
+        });
+      }
+    },
+
+    // Make rollup wait for the declarations before it calls the build done, and
+    // make sure every public entrypoint ended up with types.
+    async writeBundle() {
+      await generated;
+      for (let { fileName, templateOnly } of entrypoints) {
+        let dts = join(
+          opts.declarationsDir,
+          fileName.replace(/\.js$/, '.d.ts')
+        );
+        if (existsSync(dts)) {
+          continue;
+        }
+        if (templateOnly) {
+          // template-only components have no source for the type checker to
+          // look at, but their signature is always the same.
+          outputFileSync(dts, templateOnlyDeclaration);
+        } else {
+          this.warn(
+            `no type declarations were generated for the public entrypoint ${fileName}, so consumers of your addon won't get types for it. Make sure your tsconfig includes it.`
+          );
+        }
+      }
+    },
+  };
+}
+
+const templateOnlyDeclaration =
+  `import type { TemplateOnlyComponent } from '@ember/component/template-only';\n` +
+  `declare const _default: TemplateOnlyComponent;\n` +
+  `export default _default;\n`;
+
+// Glint knows about .gts and .gjs, plain tsc doesn't. When the addon has
+// Glint we use it, otherwise we fall back to tsc.
+//
+// Glint has no flag for the declaration directory, so both get a tsconfig that
+// extends the addon's own and only changes where declarations go.
+function defaultCommand(declarationsDir: string): string {
+  let pkg = JSON.parse(readFileSync('package.json', 'utf8'));
+  let deps = {
+    ...pkg.dependencies,
+    ...pkg.devDependencies,
+  };
+  let tsconfig = resolve(
+    'node_modules',
+    '.embroider',
+    'declarations-tsconfig.json'
+  );
+  outputJSONSync(
+    tsconfig,
+    {
+      extends: resolve('tsconfig.json'),
+      compilerOptions: { declarationDir: resolve(declarationsDir) },
+    },
+    { spaces: 2 }
+  );
+  if (deps['@glint/core']) {
+    return `glint --declaration --project ${JSON.stringify(tsconfig)}`;
+  }
+  return `tsc --declaration --emitDeclarationOnly --project ${JSON.stringify(
+    tsconfig
+  )}`;
+}
+
+function run(command: string): Promise<void> {
+  return new Promise((resolvePromise, reject) => {
+    let child = spawn(command, {
+      shell: true,
+      stdio: 'inherit',
+      env: {
+        ...process.env,
+        PATH: [resolve('node_modules', '.bin'), process.env.PATH].join(
+          delimiter
+        ),
+      },
+    });
+    child.on('error', reject);
+    child.on('exit', (code) => {
+      if (code === 0) {
+        resolvePromise();
+      } else {
+        reject(
+          new Error(
+            `"${command}" exited with code ${code} while generating type declarations`
+          )
+        );
+      }
+    });
+  });
+}
+
+// Type checkers keep the extensions that authors write in their imports, but
+// the .gts and .gjs files that those point at don't exist in the declarations
+// (or in our published output), so consumers would fail to resolve them.
+function fixImportExtensions(declarationsDir: string) {
+  if (!existsSync(declarationsDir)) {
+    return;
+  }
+  for (let name of walkSync(declarationsDir, {
+    globs: ['**/*.d.ts'],
+    directories: false,
+  })) {
+    let filename = join(declarationsDir, name);
+    let src = readFileSync(filename, 'utf8');
+    let fixed = src.replace(
+      /(from\s+|import\()(['"])(\.{1,2}\/[^'"]*?)\.g[jt]s\2/g,
+      '$1$2$3$2'
+    );
+    if (fixed !== src) {
+      outputFileSync(filename, fixed);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { readJsonSync, writeJsonSync } from 'fs-extra';
+import type { Plugin } from 'rollup';
+import { isDeepStrictEqual } from 'util';
+import { writeAddonChangeManifest } from '@embroider/core';
+
+type ExportTarget = string | { types: string; default: string };
+
+export default function exportsMap(opts: {
+  destDir: string;
+  declarationsDir?: string;
+  lint?: boolean;
+}): Plugin {
+  return {
+    name: 'addon-exports',
+    generateBundle(_, bundle) {
+      let pkg = readJsonSync('package.json');
+      let exports: Record<string, ExportTarget> = {};
+
+      let entrypoints = Object.values(bundle)
+        .filter(
+          (output) =>
+            output.type === 'chunk' &&
+            output.isEntry &&
+            !output.fileName.startsWith('_app_/')
+        )
+        .map((output) => output.fileName)
+        .sort((a, b) =>
+          a === 'index.js' ? -1 : b === 'index.js' ? 1 : a.localeCompare(b)
+        );
+
+      for (let fileName of entrypoints) {
+        let name = fileName.replace(/\.js$/, '');
+        let specifier = name === 'index' ? '.' : `./${name}`;
+        if (opts.declarationsDir) {
+          exports[specifier] = {
+            types: `./${opts.declarationsDir}/${name}.d.ts`,
+            default: `./${opts.destDir}/${fileName}`,
+          };
+        } else {
+          exports[specifier] = `./${opts.destDir}/${fileName}`;
+        }
+      }
+
+      // the app-js files are only ever addressed by path from the
+      // ember-addon metadata, but they still need to be reachable once we
+      // have an exports map.
+      let hasAppJS =
+        Object.keys(bundle).some((fileName) => fileName.startsWith('_app_/')) ||
+        Object.keys(pkg['ember-addon']?.['app-js'] ?? {}).length > 0;
+      if (hasAppJS) {
+        exports['./_app_/*'] = `./${opts.destDir}/_app_/*`;
+      }
+
+      if (pkg['ember-addon']?.main) {
+        let main = `./${pkg['ember-addon'].main.replace(/^\.\//, '')}`;
+        exports[main] = main;
+      }
+      exports['./package.json'] = './package.json';
+
+      // Anything the author added by hand that doesn't point into our output
+      // (stylesheets, for example) is theirs to keep, and so are patterns like
+      // "./*" that do. Other entries that point into our output are ones we
+      // generated for entrypoints that don't exist anymore.
+      for (let [specifier, target] of Object.entries(
+        (pkg.exports ?? {}) as Record<string, ExportTarget>
+      )) {
+        if (specifier in exports) {
+          continue;
+        }
+        if (!isGenerated(target, opts) || isPattern(specifier)) {
+          exports[specifier] = target;
+        } else {
+          this.warn(
+            `removing "${specifier}" from package.json "exports" because it's not a public entrypoint anymore`
+          );
+        }
+      }
+
+      // typesVersions is only here for consumers with moduleResolution
+      // "node", which doesn't understand the types conditions above.
+      let typesVersions = opts.declarationsDir
+        ? { '*': { '*': [`${opts.declarationsDir}/*`] } }
+        : undefined;
+
+      let changes: string[] = [];
+      if (!sameExports(pkg.exports, exports)) {
+        changes.push(
+          `package.json "exports" should be ${JSON.stringify(exports, null, 2)}`
+        );
+      }
+      if (
+        typesVersions &&
+        !isDeepStrictEqual(pkg.typesVersions, typesVersions)
+      ) {
+        changes.push(
+          `package.json "typesVersions" should be ${JSON.stringify(
+            typesVersions,
+            null,
+            2
+          )}`
+        );
+      }
+
+      // Don't cause a file i/o event unless something actually changed
+      if (changes.length === 0) {
+        return;
+      }
+
+      if (opts.lint) {
+        this.error(
+          `package.json is out of date with the built addon:\n${changes.join(
+            '\n'
+          )}`
+        );
+      }
+
+      pkg.exports = exports;
+      if (typesVersions) {
+        pkg.typesVersions = typesVersions;
+      }
+      writeJsonSync('package.json', pkg, { spaces: 2 });
+      writeAddonChangeManifest(
+        process.cwd(),
+        typesVersions ? ['exports', 'typesVersions'] : ['exports']
+      );
+    },
+  };
+}
+
+function isGenerated(
+  target: ExportTarget,
+  opts: { destDir: string; declarationsDir?: string }
+): boolean {
+  let paths = typeof target === 'string' ? [target] : Object.values(target);
+  return paths.some(
+    (path) =>
+      typeof path === 'string' &&
+      (path.startsWith(`./${opts.destDir}/`) ||
+        (opts.declarationsDir !== undefined &&
+          path.startsWith(`./${opts.declarationsDir}/`)))
+  );
+}
+
+function isPattern(specifier: string): boolean {
+  return specifier.includes('*') && specifier !== './_app_/*';
+}
+
+// The order of the subpaths in "exports" doesn't matter, but the order of the
+// conditions within each one does, because the first one that matches wins.
+function sameExports(
+  existing: unknown,
+  exports: Record<string, ExportTarget>
+): boolean {
+  if (typeof existing !== 'object' || existing === null) {
+    return false;
+  }
+  let specifiers = Object.keys(exports);
+  return (
+    Object.keys(existing).length === specifiers.length &&
+    specifiers.every(
+      (specifier) =>
+        JSON.stringify((existing as Record<string, unknown>)[specifier]) ===
+        JSON.stringify(exports[specifier])
+    )
+  );
+}
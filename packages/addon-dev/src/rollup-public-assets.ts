@@ -1,6 +1,7 @@
 import { readJsonSync, writeJsonSync } from 'fs-extra';
 import walkSync from 'walk-sync';
 import type { Plugin } from 'rollup';
+import { writeAddonChangeManifest } from '@embroider/core';
 
 export default function publicAssets(
   path: string,
@@ -37,6 +38,7 @@ export default function publicAssets(
         });
 
         writeJsonSync('package.json', pkg, { spaces: 2 });
+        writeAddonChangeManifest(process.cwd(), ['ember-addon.public-assets']);
       }
     },
   };
@@ -7,6 +7,8 @@ import { default as clean } from 'rollup-plugin-delete';
 import { default as keepAssets } from './rollup-keep-assets';
 import { default as dependencies } from './rollup-addon-dependencies';
 import { default as publicAssets } from './rollup-public-assets';
+import { default as exportsMap } from './rollup-exports';
+import { default as declarations } from './rollup-declarations';
 import type { Plugin } from 'rollup';
 
 export class Addon {
@@ -88,6 +90,36 @@ export class Addon {
     };
   }
 
+  // This generates the "exports" in your package.json from the public
+  // entrypoints that rollup actually emitted, so you don't need to keep them in
+  // sync by hand. When you pass a declarationsDir, each entrypoint also gets a
+  // "types" condition and your package.json gets a matching "typesVersions".
+  //
+  // With `lint: true` nothing gets written. Instead the build fails if
+  // package.json is out of date, which is useful in CI.
+  exports(opts: { declarationsDir?: string; lint?: boolean } = {}): Plugin {
+    return exportsMap({
+      destDir: this.#destDir,
+      declarationsDir: opts.declarationsDir,
+      lint: opts.lint,
+    });
+  }
+
+  // This runs type generation over your srcDir alongside the rollup build and
+  // writes the declarations into declarationsDir, mirroring the layout of your
+  // destDir. It uses `glint --declaration` when your addon depends on
+  // @glint/core and plain `tsc` otherwise, unless you pass your own command.
+  //
+  // Every module that publicEntrypoints emits is expected to get a
+  // declaration. Template-only components get one generated for them, and
+  // anything else that's missing produces a warning.
+  declarations(
+    declarationsDir = 'declarations',
+    opts: { command?: string } = {}
+  ): Plugin {
+    return declarations({ declarationsDir, command: opts.command });
+  }
+
   dependencies() {
     return dependencies();
   }
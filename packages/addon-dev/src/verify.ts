@@ -0,0 +1,278 @@
+import { existsSync, readFileSync, readJSONSync, statSync } from 'fs-extra';
+import { dirname, join } from 'path';
+import walkSync from 'walk-sync';
+import { parse } from '@babel/parser';
+import traverse from '@babel/traverse';
+import type { AddonMeta } from '@embroider/core';
+import {
+  emberVirtualPackages,
+  emberVirtualPeerDeps,
+  packageName,
+  templateCompilationModules,
+} from '@embroider/core';
+
+export interface Problem {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+const compilationModules = new Set(
+  templateCompilationModules.map((m) => m.module)
+);
+
+// Checks a built v2 addon the way a consuming app would see it: everything
+// that package.json points at has to exist, and everything the built modules
+// import has to be resolvable from the published package.
+export function verify(addonDir: string, destDir = 'dist'): Problem[] {
+  let problems: Problem[] = [];
+  let error = (message: string) =>
+    problems.push({ severity: 'error', message });
+  let warning = (message: string) =>
+    problems.push({ severity: 'warning', message });
+
+  let pkg = readJSONSync(join(addonDir, 'package.json'));
+  let meta: Partial<AddonMeta> = pkg['ember-addon'] ?? {};
+  let exists = (file: string) => existsSync(join(addonDir, file));
+
+  if (meta.version !== 2) {
+    error(`package.json "ember-addon.version" should be 2`);
+  }
+  if (!exists(destDir)) {
+    error(`${destDir} does not exist, did you forget to build?`);
+    return problems;
+  }
+
+  if (meta.main && !exists(meta.main)) {
+    error(`"ember-addon.main" points at ${meta.main}, which does not exist`);
+  }
+  for (let [appName, target] of Object.entries(meta['app-js'] ?? {})) {
+    if (!exists(target)) {
+      error(
+        `"ember-addon.app-js" maps ${appName} to ${target}, which does not exist`
+      );
+    }
+  }
+  for (let filename of Object.keys(meta['public-assets'] ?? {})) {
+    if (!exists(filename)) {
+      error(
+        `"ember-addon.public-assets" lists ${filename}, which does not exist`
+      );
+    }
+  }
+  for (let [fromName, toName] of Object.entries(
+    meta['renamed-modules'] ?? {}
+  )) {
+    if (
+      !toName.startsWith(`${pkg.name}/`) ||
+      !exists(toName.slice(pkg.name.length + 1))
+    ) {
+      error(
+        `"ember-addon.renamed-modules" maps ${fromName} to ${toName}, which is not a file in this package`
+      );
+    }
+  }
+  for (let target of exportTargets(pkg.exports)) {
+    if (target.includes('*')) {
+      // we can't know every path a pattern will be asked for, but at least the
+      // directory it points into should exist
+      let prefix = dirname(target.slice(0, target.indexOf('*')) + 'x');
+      if (!exists(prefix)) {
+        error(`"exports" points at ${target}, but ${prefix} does not exist`);
+      }
+    } else if (!exists(target)) {
+      error(`"exports" points at ${target}, which does not exist`);
+    }
+  }
+
+  for (let name of walkSync(join(addonDir, destDir), {
+    globs: ['**/*.hbs'],
+    directories: false,
+  })) {
+    error(
+      `${join(
+        destDir,
+        name
+      )} is a template that was never converted to Javascript, you probably need addon.hbs() in your rollup config`
+    );
+  }
+
+  let declared = new Set([
+    ...Object.keys(pkg.dependencies ?? {}),
+    ...Object.keys(pkg.peerDependencies ?? {}),
+  ]);
+  let externals = new Set(meta.externals ?? []);
+
+  for (let name of walkSync(join(addonDir, destDir), {
+    globs: ['**/*.js', '**/*.mjs'],
+    directories: false,
+  })) {
+    let filename = join(destDir, name);
+    let specifiers: Set<string>;
+    try {
+      specifiers = importsOf(readFileSync(join(addonDir, filename), 'utf8'));
+    } catch (err) {
+      error(`${filename} could not be parsed: ${err.message}`);
+      continue;
+    }
+    for (let specifier of specifiers) {
+      if (specifier.endsWith('.hbs')) {
+        error(
+          `${filename} imports "${specifier}", but .hbs files aren't valid in a v2 addon's output`
+        );
+        continue;
+      }
+      let pkgName = packageName(specifier);
+      if (!pkgName) {
+        let target = join(dirname(filename), specifier);
+        if (!exists(target) || isDirectory(join(addonDir, target))) {
+          error(
+            `${filename} imports "${specifier}", but ${target} does not exist`
+          );
+        }
+        continue;
+      }
+      if (pkgName === pkg.name) {
+        // ember's resolver (unlike node) lets these leave off the extension
+        let target = resolveOwnModule(pkg, specifier);
+        if (!target || !(exists(target) || exists(`${target}.js`))) {
+          error(
+            `${filename} imports "${specifier}", which does not resolve to a file in this package`
+          );
+        }
+        continue;
+      }
+      if (
+        declared.has(pkgName) ||
+        externals.has(specifier) ||
+        externals.has(pkgName) ||
+        emberVirtualPackages.has(pkgName) ||
+        compilationModules.has(pkgName)
+      ) {
+        continue;
+      }
+      if (emberVirtualPeerDeps.has(pkgName)) {
+        warning(
+          `${filename} imports "${specifier}". addon.dependencies() treats ${pkgName} as external because apps promise to provide it, but it should be in your peerDependencies`
+        );
+      } else if (pkg.devDependencies?.[pkgName]) {
+        error(
+          `${filename} imports "${specifier}", but ${pkgName} is only a devDependency so it won't be installed for your consumers`
+        );
+      } else {
+        error(
+          `${filename} imports "${specifier}", but ${pkgName} is not in dependencies or peerDependencies`
+        );
+      }
+    }
+  }
+
+  return problems;
+}
+
+function isDirectory(path: string): boolean {
+  return statSync(path).isDirectory();
+}
+
+// every path in an exports map, including the ones nested under conditions
+function exportTargets(exports: unknown): string[] {
+  if (typeof exports === 'string') {
+    return [exports];
+  }
+  if (Array.isArray(exports)) {
+    return exports.flatMap(exportTargets);
+  }
+  if (exports && typeof exports === 'object') {
+    return Object.values(exports).flatMap(exportTargets);
+  }
+  return [];
+}
+
+// the path that a runtime import of an exports entry gets, skipping over the
+// "types" condition that only type checkers use
+function runtimeTarget(exports: unknown): string | undefined {
+  if (typeof exports === 'string') {
+    return exports;
+  }
+  if (Array.isArray(exports)) {
+    return runtimeTarget(exports[0]);
+  }
+  if (exports && typeof exports === 'object') {
+    let [condition] = Object.keys(exports).filter((key) => key !== 'types');
+    return condition
+      ? runtimeTarget((exports as Record<string, unknown>)[condition])
+      : undefined;
+  }
+  return undefined;
+}
+
+// Finds the file that an import of our own package name reaches, by following
+// the same rules that node uses for "exports" (minus the conditions, where we
+// take the first one that applies at runtime).
+function resolveOwnModule(
+  pkg: { name: string; main?: string; exports?: unknown },
+  specifier: string
+): string | undefined {
+  let subpath = '.' + specifier.slice(pkg.name.length);
+  if (pkg.exports === undefined) {
+    return subpath === '.' ? pkg.main ?? 'index.js' : subpath;
+  }
+  let exports = pkg.exports;
+  if (
+    typeof exports === 'string' ||
+    Array.isArray(exports) ||
+    Object.keys(exports as object).every((key) => !key.startsWith('.'))
+  ) {
+    exports = { '.': exports };
+  }
+  let entries = exports as Record<string, unknown>;
+  if (subpath in entries) {
+    return runtimeTarget(entries[subpath]);
+  }
+  for (let [key, value] of Object.entries(entries)) {
+    let target = runtimeTarget(value);
+    if (!target) {
+      continue;
+    }
+    let star = key.indexOf('*');
+    if (star >= 0) {
+      let prefix = key.slice(0, star);
+      let suffix = key.slice(star + 1);
+      if (
+        subpath.startsWith(prefix) &&
+        subpath.endsWith(suffix) &&
+        subpath.length >= key.length - 1
+      ) {
+        let match = subpath.slice(
+          prefix.length,
+          subpath.length - suffix.length
+        );
+        return target.replace(/\*/g, match);
+      }
+    }
+  }
+  return undefined;
+}
+
+function importsOf(src: string): Set<string> {
+  let specifiers = new Set<string>();
+  traverse(parse(src, { sourceType: 'module' }), {
+    ImportDeclaration(path) {
+      specifiers.add(path.node.source.value);
+    },
+    ExportNamedDeclaration(path) {
+      if (path.node.source) {
+        specifiers.add(path.node.source.value);
+      }
+    },
+    ExportAllDeclaration(path) {
+      specifiers.add(path.node.source.value);
+    },
+    CallExpression(path) {
+      let [arg] = path.node.arguments;
+      if (path.get('callee').isImport() && arg?.type === 'StringLiteral') {
+        specifiers.add(arg.value);
+      }
+    },
+  });
+  return specifiers;
+}
@@ -1,10 +1,13 @@
 #!/usr/bin/env node
 
-import { readFileSync, readJSONSync, writeFileSync } from 'fs-extra';
-import { resolve } from 'path';
+import { outputFileSync, readFileSync, readJSONSync, writeFileSync } from 'fs-extra';
+import { join, resolve } from 'path';
 import yargs from 'yargs/yargs';
-import type { Finding } from './audit';
+import type { AuditBuildOptions, Finding } from './audit';
 import { Audit, AuditResults, isBuildError } from './audit';
+import { diffAuditResults, humanReadableDiff } from './audit/diff';
+import { ModuleGraph } from './audit/graph';
+import { inferPackageRules, packageRulesFile } from './audit/infer-rules';
 
 // slightly wacky because yargs types don't cover this, but you can't access the
 // other documented place to find `hideBin` on node < 12.17
@@ -31,12 +34,24 @@ function runCLI() {
             description: 'Print results in JSON format',
             default: false,
           })
+          .option('sarif', {
+            type: 'boolean',
+            description: 'Print results in SARIF format, for use with code scanning tools',
+            default: false,
+          })
           .option('reuse-build', {
             alias: 'r',
             type: 'boolean',
             description: 'Reuse previous build',
             default: false,
           })
+          .option('watch', {
+            alias: 'w',
+            type: 'boolean',
+            description:
+              'Keep a build running in watch mode and re-audit after every rebuild, printing only the findings that changed',
+            default: false,
+          })
           .option('load', {
             alias: 'l',
             type: 'string',
@@ -52,6 +67,17 @@ function runCLI() {
             description: 'Path to your app',
             default: process.cwd(),
           })
+          .option('pipeline', {
+            choices: ['webpack', 'vite'] as const,
+            description:
+              'The build pipeline your app uses. By default we look for a vite config file in your app to decide.',
+          })
+          .option('unused', {
+            type: 'boolean',
+            description:
+              'Also report app modules that no entrypoint reaches and app exports that nothing imports. With staticComponents, staticHelpers or staticModifiers this includes unused components, helpers and modifiers.',
+            default: false,
+          })
           .option('filter', {
             type: 'string',
             description:
@@ -62,6 +88,18 @@ function runCLI() {
             description:
               'Path to a JS file where we will create a filter that will silence all your current findings. Pass it back into future audits via --filter',
           })
+          .check(options => {
+            if (options.watch) {
+              // watch mode only ever prints human-readable diffs, so these
+              // would otherwise be silently ignored
+              for (let option of ['json', 'sarif', 'save', 'load', 'create-filter'] as const) {
+                if (options[option]) {
+                  return `--watch can't be combined with --${option}`;
+                }
+              }
+            }
+            return true;
+          })
           .fail(function (_, err, _yargs) {
             if (isBuildError(err)) {
               process.stderr.write(err.message + '\n');
@@ -73,10 +111,13 @@ function runCLI() {
       },
       async options => {
         let filter = loadFilter(options);
+        if (options.watch) {
+          watch(options, filter);
+          return;
+        }
         let results: AuditResults;
         if (options.load) {
-          results = new AuditResults();
-          Object.assign(results, readJSONSync(options.load));
+          results = loadResults(options.load);
         } else {
           results = await Audit.run(options);
         }
@@ -86,6 +127,8 @@ function runCLI() {
         applyFilter(filter, results);
         if (options.json) {
           process.stdout.write(JSON.stringify(results, null, 2) + '\n');
+        } else if (options.sarif) {
+          process.stdout.write(JSON.stringify(results.sarif(), null, 2) + '\n');
         } else {
           process.stdout.write(results.humanReadable());
         }
@@ -116,6 +159,222 @@ function runCLI() {
         process.exit(0);
       }
     )
+    .command(
+      'diff <old> <new>',
+      'compare two saved JSON audit results. Exits non-zero only when the new results contain findings that the old ones did not.',
+      yargs => {
+        return yargs
+          .positional('old', {
+            type: 'string',
+            description: 'Path to the baseline audit results',
+            demandOption: true,
+          })
+          .positional('new', {
+            type: 'string',
+            description: 'Path to the audit results to compare against the baseline',
+            demandOption: true,
+          })
+          .option('json', {
+            alias: 'j',
+            type: 'boolean',
+            description: 'Print the new and resolved findings in JSON format',
+            default: false,
+          })
+          .option('filter', {
+            type: 'string',
+            description:
+              'Path to a JS file that describes which findings to silence. Generate the file using `embroider-compat-audit acknowledge`',
+          });
+      },
+      async options => {
+        let filter = loadFilter(options);
+        let before = loadResults(options.old);
+        let after = loadResults(options.new);
+        applyFilter(filter, before);
+        applyFilter(filter, after);
+        let diff = diffAuditResults(before, after);
+        if (options.json) {
+          process.stdout.write(JSON.stringify(diff, null, 2) + '\n');
+        } else {
+          process.stdout.write(humanReadableDiff(diff));
+        }
+        process.exit(diff.added.length > 0 ? 1 : 0);
+      }
+    )
+    .command(
+      'graph',
+      'export the module graph that the audit discovered, or ask questions about it',
+      yargs => {
+        return yargs
+          .option('load', {
+            alias: 'l',
+            type: 'string',
+            description: 'Load previous audit results from a JSON file instead of running a new audit',
+          })
+          .option('app', {
+            type: 'string',
+            description: 'Path to your app',
+            default: process.cwd(),
+          })
+          .option('reuse-build', {
+            alias: 'r',
+            type: 'boolean',
+            description: 'Reuse previous build',
+            default: false,
+          })
+          .option('pipeline', {
+            choices: ['webpack', 'vite'] as const,
+            description:
+              'The build pipeline your app uses. By default we look for a vite config file in your app to decide.',
+          })
+          .option('format', {
+            choices: ['dot', 'graphml', 'html'] as const,
+            description: 'Export format for the whole graph',
+            default: 'dot' as 'dot' | 'graphml' | 'html',
+          })
+          .option('output', {
+            alias: 'o',
+            type: 'string',
+            description: 'Write the export to this file instead of stdout',
+          })
+          .option('who-imports', {
+            type: 'string',
+            description:
+              'Instead of exporting, list the modules that import the given module. Matches any module whose path contains this string.',
+          })
+          .option('path-to', {
+            type: 'string',
+            description:
+              'Instead of exporting, print the shortest chain of imports from an entrypoint to the given module. Matches any module whose path contains this string.',
+          })
+          .option('sccs', {
+            type: 'number',
+            description:
+              'Instead of exporting, list this many of the largest strongly connected components (import cycles)',
+          });
+      },
+      async options => {
+        let results = options.load ? loadResults(options.load) : await Audit.run(options);
+        let graph = new ModuleGraph(results);
+        let queried = false;
+        if (options['who-imports'] != null) {
+          queried = true;
+          let found = graph.whoImports(options['who-imports']);
+          process.stdout.write(`=== Modules importing ${options['who-imports']} ===\n`);
+          for (let { importer, imported } of found) {
+            process.stdout.write(`${importer} -> ${imported}\n`);
+          }
+          process.stdout.write(`${found.length} imports found\n`);
+        }
+        if (options['path-to'] != null) {
+          queried = true;
+          let path = graph.pathTo(options['path-to']);
+          process.stdout.write(`=== Path to ${options['path-to']} ===\n`);
+          if (path) {
+            process.stdout.write(path.map((name, i) => `${'  '.repeat(i)}${name}`).join('\n') + '\n');
+          } else {
+            process.stdout.write(`no entrypoint reaches a matching module\n`);
+          }
+        }
+        if (options.sccs != null) {
+          queried = true;
+          let components = graph.stronglyConnectedComponents().slice(0, options.sccs);
+          process.stdout.write(`=== Largest strongly connected components ===\n`);
+          for (let [i, component] of components.entries()) {
+            process.stdout.write(`#${i + 1} (${component.length} modules)\n`);
+            for (let name of component) {
+              process.stdout.write(`  ${name}\n`);
+            }
+          }
+        }
+        if (!queried) {
+          let exported: string;
+          switch (options.format) {
+            case 'dot':
+              exported = graph.toDOT();
+              break;
+            case 'graphml':
+              exported = graph.toGraphML();
+              break;
+            case 'html':
+              exported = graph.toHTML();
+              break;
+          }
+          if (options.output) {
+            writeFileSync(options.output, exported);
+          } else {
+            process.stdout.write(exported);
+          }
+        }
+        process.exit(0);
+      }
+    )
+    .command(
+      'infer-rules',
+      'propose packageRules that would address the dynamic component and ambiguity findings in your audit, with a confidence note for each rule',
+      yargs => {
+        return yargs
+          .option('load', {
+            alias: 'l',
+            type: 'string',
+            description: 'Load previous audit results from a JSON file instead of running a new audit',
+          })
+          .option('app', {
+            type: 'string',
+            description: 'Path to your app',
+            default: process.cwd(),
+          })
+          .option('reuse-build', {
+            alias: 'r',
+            type: 'boolean',
+            description: 'Reuse previous build',
+            default: false,
+          })
+          .option('pipeline', {
+            choices: ['webpack', 'vite'] as const,
+            description:
+              'The build pipeline your app uses. By default we look for a vite config file in your app to decide.',
+          })
+          .option('output-dir', {
+            alias: 'o',
+            type: 'string',
+            description:
+              'Write one rules file per package into this directory instead of printing them. Each file exports an array that you can spread into packageRules.',
+          })
+          .option('json', {
+            alias: 'j',
+            type: 'boolean',
+            description: 'Print the inferred rules and their notes in JSON format',
+            default: false,
+          });
+      },
+      async options => {
+        let results = options.load ? loadResults(options.load) : await Audit.run(options);
+        let appName = readJSONSync(join(options.app, 'package.json')).name;
+        let inference = inferPackageRules(results, appName);
+        if (options.json) {
+          process.stdout.write(JSON.stringify(inference, null, 2) + '\n');
+          process.exit(0);
+        }
+        for (let inferred of inference.packages) {
+          let source = packageRulesFile(inferred);
+          if (options['output-dir']) {
+            let filename = join(options['output-dir'], `${inferred.rules.package}.js`);
+            outputFileSync(filename, source);
+            process.stdout.write(`wrote ${inferred.notes.length} rules for ${inferred.rules.package} to ${filename}\n`);
+          } else {
+            process.stdout.write(`=== ${inferred.rules.package} ===\n${source}`);
+          }
+        }
+        if (inference.unaddressed.length > 0) {
+          process.stdout.write(`=== Findings we can't propose rules for ===\n`);
+          for (let finding of inference.unaddressed) {
+            process.stdout.write(`${finding.filename} ${finding.message}: ${finding.detail}\n`);
+          }
+        }
+        process.exit(0);
+      }
+    )
     .command(
       'acknowledge',
       'Pipe your audit JSON to this command to generate a filter file that will silence the current issues. Pass the filter file into your next audit via --filter. Delete findings out of the filter file as you address them.',
@@ -140,6 +399,40 @@ if (require.main === module) {
   runCLI();
 }
 
+function watch(options: AuditBuildOptions, filter: Filter | undefined) {
+  let previous: AuditResults | undefined;
+  let stop = Audit.watch(
+    options,
+    results => {
+      applyFilter(filter, results);
+      if (previous) {
+        process.stdout.write(humanReadableDiff(diffAuditResults(previous, results)));
+        process.stdout.write(`${results.findings.length} issues in total\n`);
+      } else {
+        process.stdout.write(results.humanReadable());
+      }
+      previous = results;
+    },
+    err => {
+      if (isBuildError(err)) {
+        process.stderr.write(err.message + '\n');
+      } else {
+        console.error(err);
+      }
+    }
+  );
+  process.on('SIGINT', () => {
+    stop();
+    process.exit(0);
+  });
+}
+
+function loadResults(filename: string): AuditResults {
+  let results = new AuditResults();
+  Object.assign(results, readJSONSync(filename));
+  return results;
+}
+
 type Filter = { findings: Omit<Finding, 'codeFrame'>[] };
 
 function loadFilter(options: { filter: string | undefined }): Filter | undefined {
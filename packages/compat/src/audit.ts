@@ -1,16 +1,22 @@
-import { readFileSync, readJSONSync } from 'fs-extra';
-import { dirname, join, resolve as resolvePath } from 'path';
-import type { AppMeta, ResolverOptions } from '@embroider/core';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, readJSONSync } from 'fs-extra';
+import { dirname, join, parse as pathParse, relative, resolve as resolvePath, sep } from 'path';
+import type { AddonMeta, AppMeta, ResolverOptions } from '@embroider/core';
 import { explicitRelative, hbsToJS, locateEmbroiderWorkingDir, Resolver, RewrittenPackageCache } from '@embroider/core';
 import { Memoize } from 'typescript-memoize';
 import chalk from 'chalk';
 import jsdom from 'jsdom';
+import { Preprocessor } from 'content-tag';
 import groupBy from 'lodash/groupBy';
 import fromPairs from 'lodash/fromPairs';
+import walkSync from 'walk-sync';
 import type { ExportAll, InternalImport, NamespaceMarker } from './audit/babel-visitor';
 import { auditJS, CodeFrameStorage, isNamespaceMarker } from './audit/babel-visitor';
 import { AuditBuildOptions, AuditOptions } from './audit/options';
-import { buildApp, BuildError, isBuildError } from './audit/build';
+import { buildApp, BuildError, isBuildError, watchApp } from './audit/build';
+import type { SarifLog } from './audit/sarif';
+import { toSARIF } from './audit/sarif';
+import type { CompatResolverOptions } from './resolver-transform';
 
 const { JSDOM } = jsdom;
 
@@ -34,6 +40,16 @@ export interface Finding {
   filename: string;
   detail: string;
   codeFrame?: string;
+  loc?: Loc;
+}
+
+// the file in the app's or an addon's own source that an audited file came
+// from. The audit itself sees the rewritten app and rewritten packages.
+export interface OriginalSource {
+  filename: string;
+  // whether line and column numbers in the audited file are also right for the
+  // original one
+  sameLocations: boolean;
 }
 
 export interface Module {
@@ -70,6 +86,11 @@ interface InternalModule {
   linked?: {
     exports: Set<string>;
   };
+
+  // what a later run of the same Audit uses to tell whether this module
+  // changed, and to report its findings again without visiting it
+  contentHash?: string;
+  visitFindings?: Finding[];
 }
 
 type ParsedInternalModule = Omit<InternalModule, 'parsed'> & {
@@ -103,8 +124,15 @@ export interface Import {
 export class AuditResults {
   modules: { [file: string]: Module } = {};
   findings: Finding[] = [];
+  // keyed by the filenames of findings
+  originals: { [file: string]: OriginalSource } = {};
 
-  static create(baseDir: string, findings: Finding[], modules: Map<string, InternalModule>) {
+  static create(
+    baseDir: string,
+    findings: Finding[],
+    modules: Map<string, InternalModule>,
+    originals: Map<string, OriginalSource> = new Map()
+  ) {
     let results = new this();
     for (let [filename, module] of modules) {
       let publicModule: Module = {
@@ -144,6 +172,12 @@ export class AuditResults {
       let relFinding = Object.assign({}, finding, { filename: explicitRelative(baseDir, finding.filename) });
       results.findings.push(relFinding);
     }
+    for (let [filename, original] of originals) {
+      results.originals[explicitRelative(baseDir, filename)] = {
+        filename: explicitRelative(baseDir, original.filename),
+        sameLocations: original.sameLocations,
+      };
+    }
     return results;
   }
 
@@ -159,6 +193,11 @@ export class AuditResults {
           output.push(indent(finding.codeFrame, 2));
         }
       }
+      if (!this.modules[filename]) {
+        // findings about modules that the audit never reached, like unused
+        // modules, have no explanation to give.
+        continue;
+      }
       output.push(indent(chalk.blueBright(`file was included because:`), 1));
       let pointer: string | RootMarker = filename;
       while (!isRootMarker(pointer)) {
@@ -194,6 +233,10 @@ export class AuditResults {
     return output.join('\n');
   }
 
+  sarif(): SarifLog {
+    return toSARIF(this);
+  }
+
   get perfect() {
     return this.findings.length === 0;
   }
@@ -205,6 +248,13 @@ export class Audit {
   private moduleQueue = new Set<string>();
   private findings = [] as Finding[];
 
+  // the module whose findings pushFinding is collecting
+  private visiting: InternalModule | undefined;
+
+  // what the previous run saw, so the next one can tell what changed
+  private candidates: string[] | undefined;
+  private configIdentity: string | undefined;
+
   private frames = new CodeFrameStorage();
 
   static async run(options: AuditBuildOptions): Promise<AuditResults> {
@@ -225,8 +275,57 @@ export class Audit {
     return audit.run();
   }
 
+  // Audits the app every time a stage-2 build running in watch mode finishes.
+  // The same Audit is re-run after each rebuild, so only the modules that
+  // changed get visited again (see run()). A different resolver, babel config
+  // or app package.json can change anything, so those start a new Audit.
+  // Returns a function that stops watching.
+  static watch(
+    options: AuditBuildOptions,
+    onResults: (results: AuditResults) => void,
+    onError: (err: Error) => void
+  ): () => void {
+    let audit: Audit | undefined;
+    let running = false;
+    let pending = false;
+    let trigger = async () => {
+      if (running) {
+        pending = true;
+        return;
+      }
+      running = true;
+      try {
+        do {
+          pending = false;
+          if (!audit || audit.configChanged()) {
+            audit = new this(options.app, options);
+          }
+          onResults(await audit.run());
+        } while (pending);
+      } catch (err) {
+        onError(err);
+      } finally {
+        running = false;
+      }
+    };
+    let build = watchApp(options, trigger, onError);
+    return () => build.stop();
+  }
+
   constructor(private originAppRoot: string, private options: AuditOptions = {}) {}
 
+  private currentConfigIdentity(): string {
+    let hash = createHash('sha1');
+    hash.update(readFileSync(join(locateEmbroiderWorkingDir(this.originAppRoot), 'resolver.json')));
+    hash.update(readFileSync(join(this.movedAppRoot, 'package.json')));
+    hash.update(readFileSync(join(this.movedAppRoot, this.meta.babel.filename)));
+    return hash.digest('hex');
+  }
+
+  private configChanged(): boolean {
+    return this.configIdentity !== undefined && this.configIdentity !== this.currentConfigIdentity();
+  }
+
   @Memoize()
   private get pkg() {
     return readJSONSync(join(this.movedAppRoot, 'package.json'));
@@ -244,8 +343,11 @@ export class Audit {
 
   @Memoize()
   private get babelConfig() {
+    let configFile = join(this.movedAppRoot, this.meta.babel.filename);
+    // in watch mode, a new Audit needs to see the latest config
+    delete require.cache[configFile];
     // eslint-disable-next-line @typescript-eslint/no-require-imports
-    let config = require(join(this.movedAppRoot, this.meta.babel.filename));
+    let config = require(configFile);
     config = Object.assign({}, config);
     config.plugins = config.plugins.filter((p: any) => !isMacrosPlugin(p));
 
@@ -259,6 +361,16 @@ export class Audit {
 
   private resolver = new Resolver(this.resolverParams);
 
+  @Memoize()
+  private get pipeline(): 'webpack' | 'vite' {
+    return this.options.pipeline ?? detectPipeline(this.originAppRoot);
+  }
+
+  @Memoize()
+  private get templateTagPreprocessor() {
+    return new Preprocessor();
+  }
+
   private debug(message: string, ...args: any[]) {
     if (this.options.debug) {
       console.log(message, ...args);
@@ -278,6 +390,8 @@ export class Audit {
       return this.visitHBS;
     } else if (filename.endsWith('.json')) {
       return this.visitJSON;
+    } else if (filename.endsWith('.gjs') || filename.endsWith('.gts')) {
+      return this.visitTemplateTag;
     } else {
       return this.visitJS;
     }
@@ -295,54 +409,158 @@ export class Audit {
       } else {
         content = readFileSync(filename);
       }
-      // cast is safe because the only way to get into the queue is to go
-      // through scheduleVisit, and scheduleVisit creates the entry in
-      // this.modules.
+      // cast is safe because the only ways to get into the queue are
+      // scheduleVisit, which creates the entry in this.modules, and
+      // scheduleChanged, which only queues existing entries.
       let module: InternalModule = this.modules.get(filename)!;
-      let visitResult = await visitor.call(this, filename, content);
-      if (Array.isArray(visitResult)) {
-        // the visitor was unable to figure out the ParseFields and returned
-        // some number of Findings to us to explain why.
-        for (let finding of visitResult) {
-          this.pushFinding(finding);
+      if (!this.virtualModules.has(filename)) {
+        module.contentHash = contentHash(content);
+      }
+      module.visitFindings = [];
+      this.visiting = module;
+      try {
+        let visitResult = await visitor.call(this, filename, content);
+        if (Array.isArray(visitResult)) {
+          // the visitor was unable to figure out the ParseFields and returned
+          // some number of Findings to us to explain why.
+          for (let finding of visitResult) {
+            this.pushFinding(finding);
+          }
+        } else {
+          module.parsed = visitResult;
+          module.resolved = await this.resolveDeps(visitResult.dependencies, filename);
         }
-      } else {
-        module.parsed = visitResult;
-        module.resolved = await this.resolveDeps(visitResult.dependencies, filename);
+      } finally {
+        this.visiting = undefined;
       }
     }
   }
 
+  // Running an Audit again only visits the modules whose content changed, and
+  // the modules that import them, because those are the ones whose parse and
+  // resolutions can be different now. Adding or removing one of the app's
+  // files can change how any template resolves, so that starts over instead.
   async run(): Promise<AuditResults> {
     (globalThis as any).embroider_audit = this.handleResolverError.bind(this);
 
     try {
       this.debug(`meta`, this.meta);
-      for (let asset of this.meta.assets) {
-        if (asset.endsWith('.html')) {
-          this.scheduleVisit(resolvePath(this.movedAppRoot, asset), { isRoot: true });
-        }
+      this.configIdentity ??= this.currentConfigIdentity();
+      let candidates = this.candidateModules();
+      if (this.candidates && candidates.join('\n') === this.candidates.join('\n')) {
+        this.scheduleChanged();
+      } else {
+        this.startOver();
       }
+      this.candidates = candidates;
       await this.drainQueue();
+      this.forgetUnreachable();
+
+      this.findings = [];
       this.linkModules();
       this.inspectModules();
+      if (this.options.unused) {
+        this.inspectUnusedModules(candidates);
+        this.inspectUnusedExports();
+      }
 
-      return AuditResults.create(this.originAppRoot, this.findings, this.modules);
+      let findings = [...this.modules.values()].flatMap(module => module.visitFindings ?? []).concat(this.findings);
+      return AuditResults.create(this.originAppRoot, findings, this.modules, this.originals(findings));
     } finally {
       delete (globalThis as any).embroider_audit;
     }
   }
 
+  private startOver() {
+    this.modules = new Map();
+    this.virtualModules = new Map();
+    this.moduleQueue = new Set();
+    for (let asset of this.meta.assets) {
+      if (asset.endsWith('.html')) {
+        this.scheduleVisit(resolvePath(this.movedAppRoot, asset), { isRoot: true });
+      }
+    }
+  }
+
+  private scheduleChanged() {
+    let changed = [...this.modules.entries()].filter(
+      ([filename, module]) =>
+        !this.virtualModules.has(filename) &&
+        (!existsSync(filename) || module.contentHash !== contentHash(readFileSync(filename)))
+    );
+    let revisit = new Set<string>();
+    for (let [filename, module] of changed) {
+      revisit.add(filename);
+      for (let importer of module.consumedFrom) {
+        if (!isRootMarker(importer)) {
+          revisit.add(importer);
+        }
+      }
+    }
+    for (let filename of revisit) {
+      this.debug('changed', filename);
+      let module = this.modules.get(filename)!;
+      // the module will get its consumers back when it resolves its
+      // dependencies again
+      for (let target of module.resolved?.values() ?? []) {
+        let targetModule = isResolutionFailure(target) ? undefined : this.modules.get(target);
+        if (targetModule) {
+          targetModule.consumedFrom = targetModule.consumedFrom.filter(importer => importer !== filename);
+        }
+      }
+      module.parsed = undefined;
+      module.resolved = undefined;
+      module.visitFindings = undefined;
+      if (this.virtualModules.has(filename) || existsSync(filename)) {
+        this.moduleQueue.add(filename);
+      }
+    }
+  }
+
+  // after a re-run, the modules that nothing imports anymore are no longer part
+  // of the app
+  private forgetUnreachable() {
+    let reachable = new Set<string>();
+    let stack = [...this.modules.entries()]
+      .filter(([, module]) => module.consumedFrom.some(isRootMarker))
+      .map(([filename]) => filename);
+    while (stack.length > 0) {
+      let filename = stack.pop()!;
+      if (reachable.has(filename)) {
+        continue;
+      }
+      reachable.add(filename);
+      for (let target of this.modules.get(filename)?.resolved?.values() ?? []) {
+        if (!isResolutionFailure(target)) {
+          stack.push(target);
+        }
+      }
+    }
+    for (let [filename, module] of this.modules) {
+      if (reachable.has(filename)) {
+        module.consumedFrom = module.consumedFrom.filter(importer => isRootMarker(importer) || reachable.has(importer));
+      } else {
+        this.debug('unreachable', filename);
+        this.modules.delete(filename);
+        this.virtualModules.delete(filename);
+      }
+    }
+  }
+
   private handleResolverError(msg: AuditMessage) {
     this.pushFinding({
       message: msg.message,
       filename: msg.filename,
       detail: msg.detail,
       codeFrame: this.frames.render(this.frames.forSource(msg.source)(msg)),
+      loc: msg.loc,
     });
   }
 
   private linkModules() {
+    for (let module of this.modules.values()) {
+      module.linked = undefined;
+    }
     for (let module of this.modules.values()) {
       if (isResolved(module)) {
         this.linkModule(module);
@@ -396,6 +614,7 @@ export class Audit {
           message: 'unable to resolve dependency',
           detail: imp.source,
           codeFrame: this.frames.render(imp.codeFrameIndex),
+          loc: this.frames.loc(imp.codeFrameIndex),
         });
       } else if (resolved) {
         let target = this.modules.get(resolved)!;
@@ -408,6 +627,7 @@ export class Audit {
                 message: 'importing a non-existent default export',
                 detail: `"${imp.source}" has no default export. Did you mean ${backtick}import * as ${specifier.local} from "${imp.source}"${backtick}?`,
                 codeFrame: this.frames.render(specifier.codeFrameIndex),
+                loc: this.frames.loc(specifier.codeFrameIndex),
               });
             } else {
               this.findings.push({
@@ -415,6 +635,7 @@ export class Audit {
                 message: 'importing a non-existent named export',
                 detail: `"${imp.source}" has no export named "${specifier.name}".`,
                 codeFrame: this.frames.render(specifier.codeFrameIndex),
+                loc: this.frames.loc(specifier.codeFrameIndex),
               });
             }
           }
@@ -423,6 +644,131 @@ export class Audit {
     }
   }
 
+  // With static components, helpers and modifiers, the ones that nothing
+  // refers to are left out of the build, which is how they end up unreached
+  // here. Otherwise every app file is reachable through the runtime loader, so
+  // this only finds things when those options are on.
+  private inspectUnusedModules(candidates: string[]) {
+    let { options } = this.resolver.options as Partial<CompatResolverOptions>;
+    let kinds = [
+      { dir: 'components', message: 'unused component', isStatic: options?.staticComponents },
+      { dir: 'helpers', message: 'unused helper', isStatic: options?.staticHelpers },
+      { dir: 'modifiers', message: 'unused modifier', isStatic: options?.staticModifiers },
+    ];
+    for (let filename of candidates) {
+      if (this.modules.has(filename) || this.modules.has(filename.replace(/\.hbs$/, '.js'))) {
+        continue;
+      }
+      let kind = kinds.find(k => filename.split(sep).includes(k.dir));
+      if (kind && !kind.isStatic) {
+        continue;
+      }
+      this.pushFinding({
+        filename,
+        message: kind?.message ?? 'unused module',
+        detail: 'no entrypoint reaches this module',
+      });
+    }
+  }
+
+  // the app's own modules, plus the modules that addons merge into the app
+  // via app-js.
+  private candidateModules(): string[] {
+    let candidates = walkSync(this.movedAppRoot, {
+      globs: ['**/*.{js,ts,hbs,gjs,gts}'],
+      ignore: [
+        'node_modules',
+        '**/*.d.ts',
+        '_*',
+        '-*',
+        'assets',
+        'config',
+        this.meta.babel.filename,
+        this.meta.babel.fileFilter,
+      ],
+      directories: false,
+    }).map(relativePath => resolvePath(this.movedAppRoot, relativePath));
+
+    for (let addonRoot of new Set(Object.values(this.resolver.options.activeAddons))) {
+      let pkg = readJSONSync(join(addonRoot, 'package.json'), { throws: false });
+      let appJS = (pkg?.['ember-addon'] as AddonMeta | undefined)?.['app-js'];
+      if (appJS) {
+        for (let filename of Object.values(appJS)) {
+          candidates.push(resolvePath(addonRoot, filename));
+        }
+      }
+    }
+    return candidates;
+  }
+
+  private inspectUnusedExports() {
+    let used = new Map<string, Set<string> | 'all'>();
+    let markUsed = (target: string, name: string | NamespaceMarker) => {
+      let names = used.get(target);
+      if (names === 'all') {
+        return;
+      }
+      if (isNamespaceMarker(name)) {
+        used.set(target, 'all');
+      } else {
+        if (!names) {
+          names = new Set();
+          used.set(target, names);
+        }
+        names.add(name);
+      }
+    };
+    for (let module of this.modules.values()) {
+      if (!isResolved(module)) {
+        continue;
+      }
+      for (let imp of module.parsed.imports) {
+        let target = module.resolved.get(imp.source);
+        if (!target || isResolutionFailure(target)) {
+          continue;
+        }
+        if (imp.specifiers.length === 0) {
+          // bare imports, dynamic import() and importSync() all look like
+          // this, and for the latter two we can't tell which names get used
+          markUsed(target, { isNamespace: true });
+        }
+        for (let specifier of imp.specifiers) {
+          markUsed(target, specifier.name);
+        }
+      }
+    }
+
+    for (let [filename, module] of this.modules) {
+      if (!isLinked(module) || module.parsed.isCJS || module.parsed.isAMD || !this.isOwnAppModule(filename, module)) {
+        continue;
+      }
+      let names = used.get(filename);
+      if (names === 'all') {
+        continue;
+      }
+      for (let exp of module.parsed.exports) {
+        if (typeof exp === 'string' && !names?.has(exp)) {
+          this.pushFinding({
+            filename,
+            message: 'unused export',
+            detail: `nothing imports "${exp}" from this module`,
+          });
+        }
+      }
+    }
+  }
+
+  // addons' exports are their public API, so we only hold the app's own
+  // modules to the standard of having no unused exports.
+  private isOwnAppModule(filename: string, module: InternalModule): boolean {
+    return (
+      filename.startsWith(this.movedAppRoot + sep) &&
+      !filename.slice(this.movedAppRoot.length).split(sep).includes('node_modules') &&
+      !this.virtualModules.has(filename) &&
+      !module.consumedFrom.some(isRootMarker)
+    );
+  }
+
   private moduleProvidesName(target: LinkedInternalModule, name: string | NamespaceMarker) {
     // any module can provide a namespace.
     // CJS and AMD are too dynamic to be sure exactly what names are available,
@@ -477,6 +823,7 @@ export class Audit {
           message: problem.message,
           detail: problem.detail,
           codeFrame: this.frames.render(problem.codeFrameIndex),
+          loc: this.frames.loc(problem.codeFrameIndex),
         });
       }
       return {
@@ -511,6 +858,25 @@ export class Audit {
     return this.visitJS(filename, js);
   }
 
+  private async visitTemplateTag(
+    filename: string,
+    content: Buffer | string
+  ): Promise<ParsedInternalModule['parsed'] | Finding[]> {
+    let js;
+    try {
+      js = this.templateTagPreprocessor.process(content.toString('utf8'), filename);
+    } catch (err) {
+      return [
+        {
+          filename,
+          message: `failed to parse`,
+          detail: String(err).replace(filename, explicitRelative(this.originAppRoot, filename)),
+        },
+      ];
+    }
+    return this.visitJS(filename, js);
+  }
+
   private async visitJSON(
     filename: string,
     content: Buffer | string
@@ -547,7 +913,13 @@ export class Audit {
             // plugins, so the imports are still present and should be left alone.
             continue;
           }
-          resolved.set(dep, { isResolutionFailure: true as true });
+          let viteResolution = this.pipeline === 'vite' ? await this.viteFallbackResolve(dep, fromFile) : undefined;
+          if (viteResolution) {
+            resolved.set(dep, viteResolution);
+            this.scheduleVisit(viteResolution, fromFile);
+          } else {
+            resolved.set(dep, { isResolutionFailure: true as true });
+          }
           break;
         case 'real':
           resolved.set(dep, resolution.filename);
@@ -558,8 +930,78 @@ export class Audit {
     return resolved;
   }
 
+  // These mirror the requests that @embroider/vite's hbs() and templateTag()
+  // plugins resolve after the core resolver has given up on them.
+  private async viteFallbackResolve(dep: string, fromFile: string): Promise<string | undefined> {
+    let gjs = await this.resolver.nodeResolve(dep + '.gjs', fromFile);
+    if (gjs.type === 'real') {
+      return gjs.filename;
+    }
+
+    // a template with no corresponding JS is a template-only component
+    let { ext } = pathParse(dep);
+    let template = await this.resolver.nodeResolve(dep.slice(0, dep.length - ext.length) + '.hbs', fromFile);
+    if (template.type === 'real') {
+      let filename = template.filename.replace(/\.hbs$/, '.js');
+      this.virtualModules.set(filename, templateOnlyComponent);
+      return filename;
+    }
+  }
+
+  private originals(findings: Finding[]): Map<string, OriginalSource> {
+    let originals = new Map<string, OriginalSource>();
+    for (let { filename } of findings) {
+      if (originals.has(filename) || this.virtualModules.has(filename)) {
+        continue;
+      }
+      let original = this.originalFilename(filename);
+      if (original) {
+        originals.set(filename, {
+          filename: original,
+          // the locations come from the parse of the audited file, and only
+          // the JS visitor parses a file as it is on disk
+          sameLocations:
+            this.visitorFor(filename) === this.visitJS &&
+            (original === filename || readFileSync(original).equals(readFileSync(filename))),
+        });
+      }
+    }
+    return originals;
+  }
+
+  private originalFilename(filename: string): string | undefined {
+    let cache = RewrittenPackageCache.shared('embroider', this.originAppRoot);
+    let owner = cache.ownerOfFile(filename);
+    let originalRoot = owner && cache.original(owner).root;
+    if (!owner || !originalRoot || originalRoot === owner.root) {
+      return existsSync(filename) ? filename : undefined;
+    }
+    let local = relative(owner.root, filename).split(sep).join('/');
+    let candidates: string[];
+    if (originalRoot === this.originAppRoot) {
+      candidates = local.startsWith('tests/') ? [local] : [`app/${local}`];
+    } else {
+      let [pattern, dir] = rewrittenAddonDirs.find(([pattern]) => pattern.test(local))!;
+      candidates = [local.replace(pattern, dir)];
+    }
+    candidates.push(local);
+    for (let candidate of candidates) {
+      // typescript gets compiled when an addon is rewritten
+      for (let name of [candidate, candidate.replace(/\.js$/, '.ts')]) {
+        let original = resolvePath(originalRoot, name);
+        if (existsSync(original)) {
+          return original;
+        }
+      }
+    }
+  }
+
   private pushFinding(finding: Finding) {
-    this.findings.push(finding);
+    if (this.visiting) {
+      this.visiting.visitFindings!.push(finding);
+    } else {
+      this.findings.push(finding);
+    }
   }
 
   private scheduleVisit(filename: string, parent: string | RootMarker) {
@@ -577,6 +1019,28 @@ export class Audit {
   }
 }
 
+const templateOnlyComponent =
+  `import templateOnly from '@ember/component/template-only';\n` + `export default templateOnly();\n`;
+
+const viteConfigs = ['vite.config.js', 'vite.config.mjs', 'vite.config.cjs', 'vite.config.ts', 'vite.config.mts'];
+
+// where a rewritten v1 addon's files came from, in the order to check them
+const rewrittenAddonDirs: [RegExp, string][] = [
+  [/^_app_\/tests\//, 'test-support/'],
+  [/^_app_\//, 'app/'],
+  [/^_fastboot_\//, 'fastboot/'],
+  [/^test-support\//, 'addon-test-support/'],
+  [/^/, 'addon/'],
+];
+
+function contentHash(content: string | Buffer): string {
+  return createHash('sha1').update(content).digest('hex');
+}
+
+function detectPipeline(appRoot: string): 'webpack' | 'vite' {
+  return viteConfigs.some(name => existsSync(join(appRoot, name))) ? 'vite' : 'webpack';
+}
+
 function isMacrosPlugin(p: any) {
   return Array.isArray(p) && p[1] && p[1].embroiderMacrosConfigMarker;
 }
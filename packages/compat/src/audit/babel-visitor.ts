@@ -4,6 +4,7 @@ import type { TransformOptions } from '@babel/core';
 import { transformSync, types as t } from '@babel/core';
 import type { SourceLocation } from '@babel/code-frame';
 import { codeFrameColumns } from '@babel/code-frame';
+import type { Loc } from '../audit';
 
 export class VisitorState {}
 
@@ -192,6 +193,16 @@ export class CodeFrameStorage {
       return codeFrameColumns(this.rawSources[rawSourceIndex], loc, { highlightCode: true });
     }
   }
+
+  loc(codeFrameIndex: number | undefined): Loc | undefined {
+    if (codeFrameIndex != null) {
+      let { start, end = start } = this.codeFrames[codeFrameIndex].loc;
+      return {
+        start: { line: start.line, column: start.column ?? 0 },
+        end: { line: end.line, column: end.column ?? 0 },
+      };
+    }
+  }
 }
 
 function name(node: t.StringLiteral | t.Identifier): string {
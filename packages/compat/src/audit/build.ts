@@ -17,6 +17,50 @@ export async function buildApp(options: AuditBuildOptions): Promise<void> {
   }
 }
 
+// Keeps a stage-2 build running in watch mode. onBuild runs after every
+// successful build and onError gets the output of every failed one.
+export function watchApp(
+  options: AuditBuildOptions,
+  onBuild: () => void,
+  onError: (error: BuildError) => void
+): { stop(): void } {
+  // no shell in between, so that stop() kills ember itself rather than a
+  // shell that would leave it running
+  let child = spawn(process.execPath, ['node_modules/ember-cli/bin/ember', 'build', '--watch'], {
+    stdio: ['inherit', 'pipe', 'pipe'],
+    cwd: options.app,
+    env: { ...process.env, STAGE2_ONLY: 'true' },
+  });
+  let output: string[] = [];
+  let onData = (data: Buffer) => {
+    let text = data.toString();
+    output.push(text);
+    if (/Build successful|Built project successfully/.test(text)) {
+      output = [];
+      onBuild();
+    } else if (/Build Error/.test(text)) {
+      // ember-cli writes the rest of the error right after this line, so we
+      // give it a moment to arrive
+      setTimeout(() => {
+        onError(new BuildError(`${chalk.yellow('Unable to re-audit')} because the build failed:\n${output.join('')}`));
+        output = [];
+      }, 100);
+    }
+  };
+  child.stdout.on('data', onData);
+  child.stderr.on('data', onData);
+  child.on('close', (exitCode: number | null) => {
+    if (exitCode) {
+      onError(new BuildError(`${chalk.yellow('The build exited')} with code ${exitCode}:\n${output.join('')}`));
+    }
+  });
+  return {
+    stop() {
+      child.kill();
+    },
+  };
+}
+
 export class BuildError extends Error {
   isBuildError = true;
   constructor(buildOutput: string) {
@@ -28,7 +72,7 @@ export function isBuildError(err: any): err is BuildError {
   return err?.isBuildError;
 }
 
-async function execute(
+export async function execute(
   shellCommand: string,
   opts?: { env?: Record<string, string>; pwd?: string }
 ): Promise<{
@@ -0,0 +1,58 @@
+import chalk from 'chalk';
+import type { AuditResults, Finding } from '../audit';
+
+export interface AuditDiff {
+  added: Finding[];
+  resolved: Finding[];
+}
+
+// Compares two sets of audit results. Findings are matched on the same fields
+// that filter files use (filename, message and detail), so a finding that only
+// moved around within its file doesn't count as new.
+export function diffAuditResults(before: AuditResults, after: AuditResults): AuditDiff {
+  return {
+    added: subtract(after.findings, before.findings),
+    resolved: subtract(before.findings, after.findings),
+  };
+}
+
+export function humanReadableDiff(diff: AuditDiff): string {
+  let output = [] as string[];
+  output.push(`=== Audit Diff ===`);
+  for (let finding of diff.added) {
+    output.push(`${chalk.red('+')} ${chalk.yellow(finding.filename)} ${chalk.red(finding.message)}: ${finding.detail}`);
+  }
+  for (let finding of diff.resolved) {
+    output.push(
+      `${chalk.green('-')} ${chalk.yellow(finding.filename)} ${chalk.green(finding.message)}: ${finding.detail}`
+    );
+  }
+  let summaryColor = diff.added.length > 0 ? chalk.red : chalk.green;
+  output.push(summaryColor(`${diff.added.length} new issues, ${diff.resolved.length} resolved issues`));
+  output.push(`=== End Audit Diff ===`);
+  output.push(''); // always end with a newline because `yarn run` can overwrite our last line otherwise
+  return output.join('\n');
+}
+
+// the same finding can legitimately appear more than once in a file, so this
+// is a multiset difference rather than a set difference.
+function subtract(findings: Finding[], remove: Finding[]): Finding[] {
+  let counts = new Map<string, number>();
+  for (let finding of remove) {
+    let key = identity(finding);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return findings.filter(finding => {
+    let key = identity(finding);
+    let count = counts.get(key) ?? 0;
+    if (count > 0) {
+      counts.set(key, count - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+function identity(finding: Finding): string {
+  return JSON.stringify([finding.filename, finding.message, finding.detail]);
+}
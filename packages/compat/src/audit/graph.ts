@@ -0,0 +1,378 @@
+import type { AuditResults } from '../audit';
+import { isRootMarker } from '../audit';
+
+// A directed view of the modules that an audit discovered, where each edge
+// points from an importer to a module that it imports. Module names are the
+// same app-relative paths that AuditResults uses.
+export class ModuleGraph {
+  readonly modules: string[];
+  readonly entrypoints: string[];
+
+  #imports = new Map<string, Set<string>>();
+  #importers = new Map<string, Set<string>>();
+
+  constructor(results: AuditResults) {
+    this.modules = Object.keys(results.modules);
+    this.entrypoints = [];
+    for (let name of this.modules) {
+      this.#imports.set(name, new Set());
+      this.#importers.set(name, new Set());
+    }
+    for (let [name, module] of Object.entries(results.modules)) {
+      if (module.consumedFrom.some(entry => isRootMarker(entry))) {
+        this.entrypoints.push(name);
+      }
+      for (let target of Object.values(module.resolutions)) {
+        if (target && this.#imports.has(target)) {
+          this.#imports.get(name)!.add(target);
+          this.#importers.get(target)!.add(name);
+        }
+      }
+    }
+  }
+
+  importsOf(name: string): string[] {
+    return [...(this.#imports.get(name) ?? [])];
+  }
+
+  importersOf(name: string): string[] {
+    return [...(this.#importers.get(name) ?? [])];
+  }
+
+  get edges(): [string, string][] {
+    let edges: [string, string][] = [];
+    for (let [from, targets] of this.#imports) {
+      for (let to of targets) {
+        edges.push([from, to]);
+      }
+    }
+    return edges;
+  }
+
+  // A query is either the exact name of a module or any part of its path, so
+  // that "ember-power-select" matches every module in that package.
+  matching(query: string): string[] {
+    if (this.#imports.has(query)) {
+      return [query];
+    }
+    return this.modules.filter(name => name.includes(query));
+  }
+
+  // Answers "who pulls in X": the modules outside of the matching set that
+  // import something inside of it.
+  whoImports(query: string): { importer: string; imported: string }[] {
+    let matches = new Set(this.matching(query));
+    let results: { importer: string; imported: string }[] = [];
+    for (let imported of matches) {
+      for (let importer of this.#importers.get(imported)!) {
+        if (!matches.has(importer)) {
+          results.push({ importer, imported });
+        }
+      }
+    }
+    return results;
+  }
+
+  // The shortest chain of imports that leads from any entrypoint to a module
+  // matching the query.
+  pathTo(query: string): string[] | undefined {
+    let targets = new Set(this.matching(query));
+    let cameFrom = new Map<string, string | undefined>();
+    let queue: string[] = [];
+    for (let entry of this.entrypoints) {
+      cameFrom.set(entry, undefined);
+      queue.push(entry);
+    }
+    for (let i = 0; i < queue.length; i++) {
+      let current = queue[i];
+      if (targets.has(current)) {
+        let path = [current];
+        let previous = cameFrom.get(current);
+        while (previous) {
+          path.unshift(previous);
+          previous = cameFrom.get(previous);
+        }
+        return path;
+      }
+      for (let next of this.#imports.get(current)!) {
+        if (!cameFrom.has(next)) {
+          cameFrom.set(next, current);
+          queue.push(next);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  // Strongly connected components with more than one module (in other words,
+  // import cycles), largest first. This is Tarjan's algorithm, written
+  // iteratively so that deep import chains can't overflow the stack.
+  stronglyConnectedComponents(): string[][] {
+    let index = new Map<string, number>();
+    let lowlink = new Map<string, number>();
+    let onStack = new Set<string>();
+    let stack: string[] = [];
+    let components: string[][] = [];
+    let counter = 0;
+
+    for (let start of this.modules) {
+      if (index.has(start)) {
+        continue;
+      }
+      let work: { name: string; targets: Iterator<string> }[] = [];
+      let visit = (name: string) => {
+        index.set(name, counter);
+        lowlink.set(name, counter);
+        counter++;
+        stack.push(name);
+        onStack.add(name);
+        work.push({ name, targets: this.#imports.get(name)!.values() });
+      };
+      visit(start);
+
+      while (work.length > 0) {
+        let frame = work[work.length - 1];
+        let next = frame.targets.next();
+        if (!next.done) {
+          let target = next.value;
+          if (!index.has(target)) {
+            visit(target);
+          } else if (onStack.has(target)) {
+            lowlink.set(frame.name, Math.min(lowlink.get(frame.name)!, index.get(target)!));
+          }
+          continue;
+        }
+        work.pop();
+        if (work.length > 0) {
+          let parent = work[work.length - 1].name;
+          lowlink.set(parent, Math.min(lowlink.get(parent)!, lowlink.get(frame.name)!));
+        }
+        if (lowlink.get(frame.name) === index.get(frame.name)) {
+          let component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.name);
+          if (component.length > 1) {
+            components.push(component.reverse());
+          }
+        }
+      }
+    }
+    return components.sort((a, b) => b.length - a.length);
+  }
+
+  toDOT(): string {
+    let lines = ['digraph modules {', '  node [shape=box, fontname="monospace"];'];
+    for (let name of this.modules) {
+      let attrs = this.entrypoints.includes(name) ? ' [style=bold]' : '';
+      lines.push(`  ${JSON.stringify(name)}${attrs};`);
+    }
+    for (let [from, to] of this.edges) {
+      lines.push(`  ${JSON.stringify(from)} -> ${JSON.stringify(to)};`);
+    }
+    lines.push('}', '');
+    return lines.join('\n');
+  }
+
+  toGraphML(): string {
+    let ids = new Map(this.modules.map((name, i) => [name, `n${i}`]));
+    let lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+      '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+      '  <key id="entrypoint" for="node" attr.name="entrypoint" attr.type="boolean"/>',
+      '  <graph id="modules" edgedefault="directed">',
+    ];
+    for (let name of this.modules) {
+      lines.push(`    <node id="${ids.get(name)}">`);
+      lines.push(`      <data key="name">${escapeXML(name)}</data>`);
+      lines.push(`      <data key="entrypoint">${this.entrypoints.includes(name)}</data>`);
+      lines.push(`    </node>`);
+    }
+    for (let [i, [from, to]] of this.edges.entries()) {
+      lines.push(`    <edge id="e${i}" source="${ids.get(from)}" target="${ids.get(to)}"/>`);
+    }
+    lines.push('  </graph>', '</graphml>', '');
+    return lines.join('\n');
+  }
+
+  // A single HTML file with no external dependencies. It lets you search for a
+  // module and browse its importers and imports, along with the path that
+  // pulls it in from an entrypoint.
+  toHTML(): string {
+    let data = {
+      modules: this.modules,
+      entrypoints: this.entrypoints.map(name => this.modules.indexOf(name)),
+      imports: this.modules.map(name => this.importsOf(name).map(target => this.modules.indexOf(target))),
+    };
+    // "<" is escaped so that no module name can close our script tag
+    let json = JSON.stringify(data).replace(/</g, '\\u003c');
+    return htmlTemplate.replace('__GRAPH_DATA__', () => json);
+  }
+}
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const htmlTemplate = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Embroider module graph</title>
+<style>
+  body { font-family: sans-serif; margin: 0; display: flex; height: 100vh; }
+  #sidebar { width: 40%; display: flex; flex-direction: column; border-right: 1px solid #ccc; }
+  #search { margin: 8px; padding: 4px; font-size: 14px; }
+  #results { overflow: auto; flex: 1; margin: 0; padding: 0 8px; list-style: none; }
+  #details { flex: 1; overflow: auto; padding: 8px 16px; }
+  li, .module { font-family: monospace; font-size: 12px; cursor: pointer; padding: 2px 0; word-break: break-all; }
+  li:hover, .module:hover { text-decoration: underline; }
+  h2 { font-size: 14px; margin: 16px 0 4px; }
+  #selected { font-family: monospace; font-size: 14px; font-weight: bold; word-break: break-all; }
+  svg line { stroke: #999; }
+  svg text { font-family: monospace; font-size: 11px; cursor: pointer; }
+</style>
+</head>
+<body>
+<div id="sidebar">
+  <input id="search" placeholder="Search modules" autofocus>
+  <ul id="results"></ul>
+</div>
+<div id="details"><p>Select a module to see who imports it and what it imports.</p></div>
+<script>
+  const graph = __GRAPH_DATA__;
+  const importers = graph.modules.map(() => []);
+  graph.imports.forEach((targets, from) => targets.forEach(to => importers[to].push(from)));
+
+  function pathTo(target) {
+    let cameFrom = new Map();
+    let queue = [];
+    for (let entry of graph.entrypoints) {
+      cameFrom.set(entry, -1);
+      queue.push(entry);
+    }
+    for (let i = 0; i < queue.length; i++) {
+      let current = queue[i];
+      if (current === target) {
+        let path = [];
+        for (let step = current; step !== -1; step = cameFrom.get(step)) {
+          path.unshift(step);
+        }
+        return path;
+      }
+      for (let next of graph.imports[current]) {
+        if (!cameFrom.has(next)) {
+          cameFrom.set(next, current);
+          queue.push(next);
+        }
+      }
+    }
+    return [];
+  }
+
+  function moduleList(indices) {
+    let list = document.createElement('div');
+    for (let index of indices) {
+      let item = document.createElement('div');
+      item.className = 'module';
+      item.textContent = graph.modules[index];
+      item.onclick = () => select(index);
+      list.appendChild(item);
+    }
+    if (indices.length === 0) {
+      list.textContent = '(none)';
+    }
+    return list;
+  }
+
+  function neighborhood(index) {
+    const ns = 'http://www.w3.org/2000/svg';
+    let left = importers[index].slice(0, 30);
+    let right = graph.imports[index].slice(0, 30);
+    let rows = Math.max(left.length, right.length, 1);
+    let height = rows * 16 + 16;
+    let svg = document.createElementNS(ns, 'svg');
+    svg.setAttribute('width', '100%');
+    svg.setAttribute('viewBox', '0 0 900 ' + height);
+    function label(x, y, i, anchor) {
+      let text = document.createElementNS(ns, 'text');
+      text.setAttribute('x', x);
+      text.setAttribute('y', y);
+      text.setAttribute('text-anchor', anchor);
+      let name = graph.modules[i];
+      text.textContent = name.length > 40 ? '…' + name.slice(-39) : name;
+      text.onclick = () => select(i);
+      svg.appendChild(text);
+    }
+    function edge(x1, y1, x2, y2) {
+      let line = document.createElementNS(ns, 'line');
+      line.setAttribute('x1', x1);
+      line.setAttribute('y1', y1);
+      line.setAttribute('x2', x2);
+      line.setAttribute('y2', y2);
+      svg.appendChild(line);
+    }
+    let middle = height / 2;
+    left.forEach((i, row) => {
+      edge(300, row * 16 + 12, 380, middle);
+      label(295, row * 16 + 16, i, 'end');
+    });
+    right.forEach((i, row) => {
+      edge(520, middle, 600, row * 16 + 12);
+      label(605, row * 16 + 16, i, 'start');
+    });
+    label(450, middle + 4, index, 'middle');
+    return svg;
+  }
+
+  function select(index) {
+    let details = document.getElementById('details');
+    details.textContent = '';
+    let selected = document.createElement('div');
+    selected.id = 'selected';
+    selected.textContent = graph.modules[index];
+    details.appendChild(selected);
+    details.appendChild(neighborhood(index));
+    let sections = [
+      ['Imported by (' + importers[index].length + ')', importers[index]],
+      ['Imports (' + graph.imports[index].length + ')', graph.imports[index]],
+      ['Path from an entrypoint', pathTo(index)],
+    ];
+    for (let [title, indices] of sections) {
+      let heading = document.createElement('h2');
+      heading.textContent = title;
+      details.appendChild(heading);
+      details.appendChild(moduleList(indices));
+    }
+  }
+
+  function search(query) {
+    let results = document.getElementById('results');
+    results.textContent = '';
+    let count = 0;
+    graph.modules.forEach((name, index) => {
+      if (count < 500 && name.includes(query)) {
+        let item = document.createElement('li');
+        item.textContent = name;
+        item.onclick = () => select(index);
+        results.appendChild(item);
+        count++;
+      }
+    });
+  }
+
+  document.getElementById('search').oninput = event => search(event.target.value);
+  search('');
+</script>
+</body>
+</html>
+`;
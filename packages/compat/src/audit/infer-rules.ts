@@ -0,0 +1,251 @@
+import type { AuditResults, Finding } from '../audit';
+import type { PackageRules, TemplateRules } from '../dependency-rules';
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+// One rule we proposed, and how much we trust it.
+export interface InferenceNote {
+  // where the rule sits inside the PackageRules, like
+  // `components["{{my-modal}}"].acceptsComponentArguments`
+  location: string;
+  confidence: Confidence;
+  note: string;
+  // the audit finding that the rule addresses
+  finding: Finding;
+}
+
+export interface InferredPackageRules {
+  rules: PackageRules;
+  notes: InferenceNote[];
+}
+
+export interface RulesInference {
+  packages: InferredPackageRules[];
+  // findings that we can't propose a rule for. They need a change to the code,
+  // or a rule that only a human can write (like an `invokes` rule listing
+  // which components `this.panel` can hold).
+  unaddressed: Finding[];
+}
+
+interface OwnedTemplate {
+  packageName: string;
+  // true when the template belongs to the app itself, as opposed to an addon
+  // (including an addon's own "_app_" tree)
+  isApp: boolean;
+  // the template's path relative to the root of its package
+  path: string;
+}
+
+// Proposes PackageRules that would address the template resolver findings in
+// an audit. Every proposal comes with a note explaining it, because rules that
+// are wrong make the build silently leave out components that really get used.
+export function inferPackageRules(results: AuditResults, appName: string): RulesInference {
+  let packages = new Map<string, InferredPackageRules>();
+  let unaddressed: Finding[] = [];
+
+  function rulesFor(packageName: string): InferredPackageRules {
+    let inferred = packages.get(packageName);
+    if (!inferred) {
+      inferred = { rules: { package: packageName }, notes: [] };
+      packages.set(packageName, inferred);
+    }
+    return inferred;
+  }
+
+  for (let finding of results.findings) {
+    let owner = ownerOfTemplate(finding.filename, appName);
+    if (!owner) {
+      unaddressed.push(finding);
+      continue;
+    }
+    if (finding.message === 'Unsafe dynamic component') {
+      if (!inferDynamicComponent(finding, owner, rulesFor(owner.packageName))) {
+        unaddressed.push(finding);
+      }
+    } else if (
+      finding.message === 'unsupported ambiguous syntax' ||
+      finding.message === 'unsupported ambiguity between helper and component'
+    ) {
+      if (!inferDisambiguation(finding, owner, rulesFor(owner.packageName), results)) {
+        unaddressed.push(finding);
+      }
+    } else {
+      unaddressed.push(finding);
+    }
+  }
+
+  // a finding can reach a package without producing a rule for it
+  return { packages: [...packages.values()].filter(p => p.notes.length > 0), unaddressed };
+}
+
+// Renders one package's inferred rules as a JS module that can go straight into
+// the packageRules option:
+//
+//   packageRules: [...require('./rules/my-addon.js')]
+export function packageRulesFile(inferred: InferredPackageRules): string {
+  let output = [] as string[];
+  output.push(`// Package rules for ${inferred.rules.package}, inferred from audit findings.`);
+  output.push(`// Review each rule before you rely on it.`);
+  output.push(`//`);
+  for (let { location, confidence, note } of inferred.notes) {
+    output.push(`// ${location}`);
+    output.push(`//   ${confidence} confidence: ${note}`);
+  }
+  output.push(`module.exports = ${JSON.stringify([inferred.rules], null, 2)};`);
+  output.push('');
+  return output.join('\n');
+}
+
+function inferDynamicComponent(finding: Finding, owner: OwnedTemplate, inferred: InferredPackageRules): boolean {
+  let path = finding.detail;
+  if (path === 'cannot statically analyze this expression') {
+    // this is something like `{{component (concat "x-" this.kind)}}`, which
+    // no rule can describe
+    return false;
+  }
+
+  let componentName = componentNameForTemplate(owner.path);
+  if (path.startsWith('@') && componentName) {
+    let argName = path.slice(1);
+    let snippet = `{{${componentName}}}`;
+    if (!inferred.rules.components) {
+      inferred.rules.components = {};
+    }
+    let rule = inferred.rules.components[snippet];
+    if (!rule) {
+      rule = inferred.rules.components[snippet] = {
+        acceptsComponentArguments: [],
+        layout: owner.isApp ? { appPath: owner.path } : { addonPath: owner.path },
+      };
+    }
+    let accepted = rule.acceptsComponentArguments!;
+    if (!accepted.includes(argName)) {
+      accepted.push(argName);
+      inferred.notes.push({
+        location: `components["${snippet}"].acceptsComponentArguments: "${argName}"`,
+        confidence: 'high',
+        note: `the template passes @${argName} straight to the component helper, so it expects callers to pass a component. Callers that pass something too dynamic will now get findings of their own.`,
+        finding,
+      });
+    }
+    return true;
+  }
+
+  // a path like `this.panel` could hold any component, and only a human can say
+  // which ones. An `invokes` rule that doesn't list them would hide the finding
+  // while the build leaves those components out, so we don't propose one.
+  return false;
+}
+
+function inferDisambiguation(
+  finding: Finding,
+  owner: OwnedTemplate,
+  inferred: InferredPackageRules,
+  results: AuditResults
+): boolean {
+  let match = /"\{\{([^}]+)\}\}"/.exec(finding.detail);
+  if (!match) {
+    return false;
+  }
+  let name = match[1];
+  let templateRules = templateRulesFor(owner, inferred);
+  if (!templateRules.disambiguate) {
+    templateRules.disambiguate = {};
+  }
+  let disambiguate = templateRules.disambiguate;
+  if (disambiguate[name]) {
+    return true;
+  }
+
+  let location = `${templateRulesLocation(owner)}.disambiguate["${name}"]`;
+  let kinds = [
+    ['helper', `helpers/${name}`],
+    ['component', `components/${name}`],
+  ] as const;
+  let found = kinds.filter(([, prefix]) => Object.keys(results.modules).some(file => isModuleNamed(file, prefix)));
+  if (found.length === 1) {
+    let [kind] = found[0];
+    disambiguate[name] = kind;
+    inferred.notes.push({
+      location,
+      confidence: 'medium',
+      note: `the build has a ${kind} named "${name}" and no ${
+        kind === 'helper' ? 'component' : 'helper'
+      } by that name, but an addon that the audit didn't reach could still provide one.`,
+      finding,
+    });
+  } else if (found.length === 0) {
+    disambiguate[name] = 'data';
+    inferred.notes.push({
+      location,
+      confidence: 'low',
+      note: `nothing the audit reached is named "${name}", so this is most likely a property of the template's context. Check that no addon provides a helper or component with this name.`,
+      finding,
+    });
+  } else {
+    disambiguate[name] = 'component';
+    inferred.notes.push({
+      location,
+      confidence: 'low',
+      note: `the build has both a helper and a component named "${name}". We guessed component, so check which one this template means.`,
+      finding,
+    });
+  }
+  return true;
+}
+
+function templateRulesFor(owner: OwnedTemplate, inferred: InferredPackageRules): TemplateRules {
+  let key = owner.isApp ? ('appTemplates' as const) : ('addonTemplates' as const);
+  let byFile = inferred.rules[key];
+  if (!byFile) {
+    byFile = inferred.rules[key] = {};
+  }
+  if (!byFile[owner.path]) {
+    byFile[owner.path] = {};
+  }
+  return byFile[owner.path];
+}
+
+function templateRulesLocation(owner: OwnedTemplate): string {
+  return `${owner.isApp ? 'appTemplates' : 'addonTemplates'}["${owner.path}"]`;
+}
+
+// Audit findings use paths relative to the app. Files from addons are under a
+// node_modules directory (whether or not we rewrote the addon), and anything
+// else belongs to the app.
+function ownerOfTemplate(filename: string, appName: string): OwnedTemplate | undefined {
+  if (!filename.endsWith('.hbs')) {
+    // findings in inline templates can't be matched to a rule by filename
+    return undefined;
+  }
+  let parts = filename.split('/');
+  let index = parts.lastIndexOf('node_modules');
+  if (index >= 0 && parts[index + 1] !== '.embroider') {
+    let nameLength = parts[index + 1].startsWith('@') ? 2 : 1;
+    return {
+      packageName: parts.slice(index + 1, index + 1 + nameLength).join('/'),
+      isApp: false,
+      path: parts.slice(index + 1 + nameLength).join('/'),
+    };
+  }
+  let path = filename.replace(/^\.\//, '');
+  let rewrittenApp = path.indexOf('rewritten-app/');
+  if (rewrittenApp >= 0) {
+    path = path.slice(rewrittenApp + 'rewritten-app/'.length);
+  } else if (path.startsWith('app/')) {
+    path = path.slice('app/'.length);
+  }
+  return { packageName: appName, isApp: true, path };
+}
+
+function componentNameForTemplate(path: string): string | undefined {
+  let match = /^(?:_app_\/)?(?:templates\/)?components\/(.+)\.hbs$/.exec(path);
+  if (match) {
+    return match[1].replace(/\/(index|template)$/, '');
+  }
+}
+
+function isModuleNamed(file: string, prefix: string): boolean {
+  let escaped = prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|/)${escaped}(/index)?\\.(js|ts|hbs|gjs|gts)$`).test(file);
+}
@@ -1,5 +1,15 @@
 export interface AuditOptions {
   debug?: boolean;
+
+  // Which build pipeline the app uses. This matters because the Vite plugins
+  // resolve a few kinds of requests that the core resolver leaves for them.
+  // Defaults to "vite" when the app has a vite config file, "webpack"
+  // otherwise.
+  pipeline?: 'webpack' | 'vite';
+
+  // Also report app modules that no entrypoint reaches and app exports that
+  // nothing imports.
+  unused?: boolean;
 }
 
 export interface AuditBuildOptions extends AuditOptions {
@@ -0,0 +1,128 @@
+import { readJSONSync } from 'fs-extra';
+import { resolve } from 'path';
+import type { AuditResults, Finding, OriginalSource } from '../audit';
+
+// This is the subset of SARIF 2.1.0 that we produce. See
+// https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      informationUri: string;
+      rules: SarifRule[];
+    };
+  };
+  results: SarifResult[];
+}
+
+export interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: 'warning';
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId?: string };
+      region?: { startLine: number; startColumn: number; endLine: number; endColumn: number };
+    };
+  }[];
+  partialFingerprints: { [name: string]: string };
+}
+
+export function toSARIF(results: AuditResults): SarifLog {
+  let rules: SarifRule[] = [];
+  let ruleIndices = new Map<string, number>();
+
+  let sarifResults = results.findings.map(finding => {
+    let ruleId = ruleIdFor(finding);
+    let ruleIndex = ruleIndices.get(ruleId);
+    if (ruleIndex == null) {
+      ruleIndex = rules.length;
+      rules.push({ id: ruleId, shortDescription: { text: finding.message } });
+      ruleIndices.set(ruleId, ruleIndex);
+    }
+    let result: SarifResult = {
+      ruleId,
+      ruleIndex,
+      level: 'warning',
+      message: { text: `${finding.message}: ${finding.detail}` },
+      locations: [{ physicalLocation: physicalLocation(finding, results.originals[finding.filename]) }],
+      // this is the same identity that our filter files use, so code scanning
+      // tracks a finding across runs the same way `--filter` does.
+      partialFingerprints: { 'embroiderFinding/v1': `${finding.filename}\0${finding.message}\0${finding.detail}` },
+    };
+    return result;
+  });
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'embroider-compat-audit',
+            version: readJSONSync(resolve(__dirname, '..', '..', 'package.json')).version,
+            informationUri: 'https://github.com/embroider-build/embroider',
+            rules,
+          },
+        },
+        results: sarifResults,
+      },
+    ],
+  };
+}
+
+function ruleIdFor(finding: Finding): string {
+  return finding.message
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// the audit sees the rewritten app and rewritten packages, but code scanning
+// needs to point at the files people actually edit. When we can't tell that a
+// location is right for the original file, we leave it out rather than point
+// at the wrong line.
+function physicalLocation(
+  finding: Finding,
+  original: OriginalSource | undefined
+): SarifResult['locations'][number]['physicalLocation'] {
+  let location: SarifResult['locations'][number]['physicalLocation'] = {
+    artifactLocation: artifactLocation(original?.filename ?? finding.filename),
+  };
+  if (finding.loc && original?.sameLocations) {
+    // babel's columns are zero-based, SARIF's are one-based
+    location.region = {
+      startLine: finding.loc.start.line,
+      startColumn: finding.loc.start.column + 1,
+      endLine: finding.loc.end.line,
+      endColumn: finding.loc.end.column + 1,
+    };
+  }
+  return location;
+}
+
+// findings use app-relative paths like "./components/thing.js". SARIF wants
+// URIs, which are relative to wherever the consumer decides the source root is.
+function artifactLocation(filename: string): { uri: string; uriBaseId?: string } {
+  if (filename.startsWith('./')) {
+    return { uri: encodeURI(filename.slice(2)), uriBaseId: '%SRCROOT%' };
+  }
+  if (filename.startsWith('../')) {
+    return { uri: encodeURI(filename), uriBaseId: '%SRCROOT%' };
+  }
+  return { uri: encodeURI(filename) };
+}
@@ -4,8 +4,14 @@ import SmooshPackageJSON from './smoosh-package-json';
 import broccoliMergeTrees from 'broccoli-merge-trees';
 import type { Node } from 'broccoli-node-api';
 import EmptyPackageTree from './empty-package-tree';
+import type PersistentAddonCache from './persistent-addon-cache';
+import type V1Addon from './v1-addon';
 
-export default function buildCompatAddon(originalPackage: Package, v1Cache: V1InstanceCache): Node {
+export default function buildCompatAddon(
+  originalPackage: Package,
+  v1Cache: V1InstanceCache,
+  addonCache?: PersistentAddonCache
+): Node {
   if (originalPackage.isV2Addon()) {
     throw new Error(
       `bug in @embroider/compat. We should not see any v2 addons here, but ${originalPackage.name} as ${originalPackage.root} is a v2 addon`
@@ -33,6 +39,13 @@ export default function buildCompatAddon(originalPackage: Package, v1Cache: V1In
     return new EmptyPackageTree(originalPackage);
   }
 
+  if (addonCache) {
+    return addonCache.through(originalPackage, oldPackages, () => v2Tree(originalPackage, oldPackages));
+  }
+  return v2Tree(originalPackage, oldPackages);
+}
+
+function v2Tree(originalPackage: Package, oldPackages: V1Addon[]): Node {
   let needsSmooshing = oldPackages.length > 1 && oldPackages[0].hasAnyTrees();
   if (needsSmooshing) {
     let trees = oldPackages.map(pkg => pkg.v2Tree).reverse();
@@ -26,7 +26,7 @@ import type { JSDOM } from 'jsdom';
 import type Options from './options';
 import type { CompatResolverOptions } from './resolver-transform';
 import type { PackageRules } from './dependency-rules';
-import { activePackageRules } from './dependency-rules';
+import { activePackageRules, packageRulesFromDependencies } from './dependency-rules';
 import flatMap from 'lodash/flatMap';
 import sortBy from 'lodash/sortBy';
 import flatten from 'lodash/flatten';
@@ -253,10 +253,17 @@ export class CompatAppBuilder {
 
   @Memoize()
   private activeRules() {
-    return activePackageRules(this.options.packageRules.concat(defaultAddonPackageRules()), [
-      { name: this.origAppPackage.name, version: this.origAppPackage.version, root: this.root },
-      ...this.allActiveAddons.filter(p => p.meta['auto-upgraded']),
-    ]);
+    return activePackageRules(
+      this.options.packageRules,
+      [
+        { name: this.origAppPackage.name, version: this.origAppPackage.version, root: this.root },
+        ...this.allActiveAddons.filter(p => p.meta['auto-upgraded']),
+      ],
+      {
+        shipped: packageRulesFromDependencies(this.allActiveAddons),
+        builtIn: defaultAddonPackageRules(),
+      }
+    );
   }
 
   private resolverConfig(engines: AppFiles[]): CompatResolverOptions {
@@ -300,6 +307,7 @@ export class CompatAppBuilder {
           .reverse(),
       })),
       amdCompatibility: this.options.amdCompatibility,
+      persistentResolutionCache: this.options.persistentResolutionCache,
 
       // this is the additional stufff that @embroider/compat adds on top to do
       // global template resolving
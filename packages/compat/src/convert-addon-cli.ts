@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+
+import yargs from 'yargs/yargs';
+import { convertAddon } from './convert-addon';
+
+// slightly wacky because yargs types don't cover this, but you can't access the
+// other documented place to find `hideBin` on node < 12.17
+const { hideBin } = yargs as unknown as {
+  hideBin(argv: readonly string[]): readonly string[];
+};
+
+function runCLI() {
+  return yargs(hideBin(process.argv)).command(
+    '$0 <destination>',
+    'convert a v1 addon into a v2 package by running the Embroider build of the project, and write it to destination',
+    yargs => {
+      return yargs
+        .positional('destination', {
+          type: 'string',
+          description: 'Where to write the v2 package. It must not exist yet.',
+          demandOption: true,
+        })
+        .option('project', {
+          type: 'string',
+          description:
+            'Path to the ember-cli app or addon whose build includes the addon. When this is the addon itself, its dummy app is used.',
+          default: process.cwd(),
+        })
+        .option('addon', {
+          type: 'string',
+          description: 'Name of the v1 addon to convert. Defaults to the project itself.',
+        })
+        .option('json', {
+          alias: 'j',
+          type: 'boolean',
+          description: 'Print the result in JSON format',
+          default: false,
+        })
+        .fail(function (_, err, _yargs) {
+          console.error(err);
+          process.exit(1);
+        });
+    },
+    async options => {
+      let result = await convertAddon({
+        projectDir: options.project,
+        addonName: options.addon,
+        destination: options.destination,
+      });
+      if (options.json) {
+        process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+      } else {
+        process.stdout.write(`Wrote ${result.addonName} as a v2 addon to ${options.destination}.\n`);
+        if (result.nonStatic.length > 0) {
+          process.stdout.write(`\nThese parts of the addon couldn't be made static and need to be ported by hand:\n`);
+          for (let item of result.nonStatic) {
+            process.stdout.write(`  - ${item}\n`);
+          }
+        }
+      }
+      process.exit(0);
+    }
+  ).argv;
+}
+
+if (require.main === module) {
+  runCLI();
+}
@@ -0,0 +1,218 @@
+import {
+  copySync,
+  existsSync,
+  mkdtempSync,
+  outputFileSync,
+  readdirSync,
+  readJSONSync,
+  removeSync,
+  writeJSONSync,
+} from 'fs-extra';
+import { extname, join, resolve } from 'path';
+import walkSync from 'walk-sync';
+import type { AddonMeta, Package, PackageInfo, RewrittenPackageIndex } from '@embroider/core';
+import { locateEmbroiderWorkingDir, PackageCache, tmpdir } from '@embroider/core';
+import { execute } from './audit/build';
+
+const addonShimRange = `^${readJSONSync(require.resolve('@embroider/addon-shim/package.json')).version}`;
+
+// the debug channels where the conversion explains what it can't handle
+const todoNamespace = 'embroider:todo';
+const unsupportedNamespace = 'embroider:unsupported';
+
+export interface ConvertAddonOptions {
+  // the ember-cli project whose build includes the addon. When this is the
+  // addon itself, its dummy app is the host.
+  projectDir: string;
+  // the v1 addon to convert. Defaults to the project itself.
+  addonName?: string;
+  // where the v2 package gets written
+  destination: string;
+}
+
+export interface ConvertAddonResult {
+  addonName: string;
+  // the parts of the addon that the conversion couldn't make static, which need
+  // a human to port them
+  nonStatic: string[];
+}
+
+// These are the metadata fields that make an app include things that nothing
+// imports.
+const implicitFields = [
+  'implicit-modules',
+  'implicit-scripts',
+  'implicit-styles',
+  'implicit-test-modules',
+  'implicit-test-scripts',
+  'implicit-test-styles',
+] as const;
+
+// Converts one v1 addon exactly the way the project's Embroider build does, by
+// running that build through stage 1, and writes the result out as a
+// standalone v2 package.
+export async function convertAddon(opts: ConvertAddonOptions): Promise<ConvertAddonResult> {
+  let projectDir = resolve(opts.projectDir);
+  let destination = resolve(opts.destination);
+  if (existsSync(destination)) {
+    throw new Error(`${destination} already exists`);
+  }
+  let addonName = opts.addonName ?? readJSONSync(join(projectDir, 'package.json')).name;
+
+  let { nonStatic, index } = await buildStage1(projectDir, addonName);
+  let packageCache = PackageCache.shared('embroider', projectDir);
+  let converted = Object.entries(index.packages).find(
+    ([originalRoot]) => packageCache.get(originalRoot).name === addonName
+  );
+  if (!converted) {
+    if (findPackage(packageCache.get(projectDir), addonName)?.isV2Addon()) {
+      throw new Error(`${addonName} is already a v2 addon`);
+    }
+    throw new Error(`${addonName} is not an addon in the ember-cli project at ${projectDir}`);
+  }
+  let convertedRoot = resolve(locateEmbroiderWorkingDir(projectDir), 'rewritten-packages', converted[1]);
+  copySync(convertedRoot, destination, {
+    dereference: true,
+    filter: src => src !== join(convertedRoot, 'node_modules'),
+  });
+
+  let newPkg: PackageInfo = readJSONSync(join(destination, 'package.json'));
+  let meta: Partial<AddonMeta> & { 'auto-upgraded'?: boolean } = (newPkg['ember-addon'] as AddonMeta) ?? {};
+
+  for (let name of walkSync(destination, { globs: ['**/*.hbs'], directories: false })) {
+    nonStatic.push(`${name} is a template that the app's build still needs to compile`);
+  }
+
+  for (let field of implicitFields) {
+    for (let name of meta[field] ?? []) {
+      nonStatic.push(`${name} is in "${field}", so apps include it even though nothing imports it`);
+    }
+  }
+
+  writeJSONSync(join(destination, 'package.json'), publishablePackageJSON(destination, newPkg, meta), { spaces: 2 });
+  outputFileSync(
+    join(destination, 'addon-main.js'),
+    `const { addonV1Shim } = require('@embroider/addon-shim');\nmodule.exports = addonV1Shim(__dirname);\n`
+  );
+
+  return { addonName, nonStatic };
+}
+
+// Runs the project's own build (so with its ember-cli-build.js, addon options
+// and Embroider options) until the addons are converted. The conversion
+// explains what it can't handle on our todo and unsupported debug channels, so
+// we turn those on and collect them from the output.
+async function buildStage1(
+  projectDir: string,
+  addonName: string
+): Promise<{ nonStatic: string[]; index: RewrittenPackageIndex }> {
+  let workingDir = locateEmbroiderWorkingDir(projectDir);
+  let indexFile = join(workingDir, 'rewritten-packages', 'index.json');
+  // so we can tell whether this build went through Embroider at all
+  removeSync(indexFile);
+  // an addon that comes out of the persistent addon cache doesn't get
+  // converted, so it wouldn't tell us what it can't handle
+  removeCachedConversions(join(workingDir, 'addon-cache'), addonName);
+
+  let outputPath = mkdtempSync(join(tmpdir, 'embroider-convert-addon-'));
+  try {
+    let result = await execute(`node node_modules/ember-cli/bin/ember build --output-path ${outputPath}`, {
+      pwd: projectDir,
+      env: {
+        STAGE1_ONLY: 'true',
+        // for ember-cli-build.js files that use maybeEmbroider()
+        EMBROIDER_TEST_SETUP_FORCE: 'embroider',
+        DEBUG: `${todoNamespace},${unsupportedNamespace}`,
+        DEBUG_COLORS: 'false',
+        DEBUG_HIDE_DATE: 'true',
+      },
+    });
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `Unable to convert ${addonName} because the build failed. Build output follows:\n${result.output}`
+      );
+    }
+    if (!existsSync(indexFile)) {
+      throw new Error(
+        `Unable to convert ${addonName} because the build of ${projectDir} doesn't use Embroider. Its ember-cli-build.js needs to use compatBuild() from @embroider/compat, or maybeEmbroider() from @embroider/test-setup.`
+      );
+    }
+    let nonStatic = result.stderr
+      .split('\n')
+      .map(line => /^embroider:(?:todo|unsupported) (.*)$/.exec(line)?.[1])
+      .filter((message): message is string => Boolean(message));
+    return { nonStatic, index: readJSONSync(indexFile) };
+  } finally {
+    removeSync(outputPath);
+  }
+}
+
+function removeCachedConversions(cacheDir: string, addonName: string) {
+  if (!existsSync(cacheDir)) {
+    return;
+  }
+  let prefix = `${addonName.replace(/\//g, '__')}-`;
+  for (let entry of readdirSync(cacheDir)) {
+    if (entry.startsWith(prefix)) {
+      removeSync(join(cacheDir, entry));
+    }
+  }
+}
+
+function findPackage(from: Package, name: string, seen = new Set<Package>()): Package | undefined {
+  if (seen.has(from)) {
+    return undefined;
+  }
+  seen.add(from);
+  for (let dep of from.dependencies) {
+    let found = dep.name === name ? dep : findPackage(dep, name, seen);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+function publishablePackageJSON(
+  destination: string,
+  pkg: PackageInfo,
+  meta: Partial<AddonMeta> & { 'auto-upgraded'?: boolean }
+) {
+  // this is a real v2 addon now, not one that Embroider upgraded on the fly
+  delete meta['auto-upgraded'];
+  // this only orders addons within one app's build
+  delete meta['order-index'];
+  meta.main = 'addon-main.js';
+
+  let exports: Record<string, string> = {};
+  if (existsSync(join(destination, 'index.js'))) {
+    exports['.'] = './index.js';
+  }
+  exports['./*'] = './*.js';
+  // "./*" only finds Javascript, so things like templates and stylesheets get
+  // their own pattern. Node prefers the longer pattern for them.
+  for (let ext of otherExtensions(destination)) {
+    exports[`./*${ext}`] = `./*${ext}`;
+  }
+  exports['./addon-main.js'] = './addon-main.js';
+
+  // the v1 main was the ember-cli addon module, which addon-main.js replaces
+  delete pkg.main;
+  return {
+    ...pkg,
+    exports,
+    'ember-addon': meta,
+    dependencies: { ...pkg.dependencies, '@embroider/addon-shim': addonShimRange },
+  };
+}
+
+function otherExtensions(destination: string): string[] {
+  let extensions = new Set<string>();
+  for (let name of walkSync(destination, { directories: false, ignore: ['package.json', 'node_modules'] })) {
+    let ext = extname(name);
+    if (ext && ext !== '.js') {
+      extensions.add(ext);
+    }
+  }
+  return [...extensions].sort();
+}
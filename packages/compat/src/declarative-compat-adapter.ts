@@ -0,0 +1,182 @@
+import type { AddonMeta, AddonTreePath } from '@embroider/core';
+import { warn } from '@embroider/core';
+import type { PluginItem } from '@babel/core';
+import { transformSync } from '@babel/core';
+import type { Node } from 'broccoli-node-api';
+import mergeTrees from 'broccoli-merge-trees';
+import Plugin from 'broccoli-plugin';
+import { outputFileSync, readFileSync } from 'fs-extra';
+import cloneDeep from 'lodash/cloneDeep';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import semver from 'semver';
+import walkSync from 'walk-sync';
+import type { V1AddonConstructor } from './v1-addon';
+import V1Addon from './v1-addon';
+
+// A compat adapter written as plain data instead of as a V1Addon subclass. It
+// covers the most common fixes for a v1 addon, and because it's plain data it
+// can live in a JSON file:
+//
+//   compatAdapters: new Map([
+//     ['ember-svg-jar', {
+//       rewrites: [
+//         {
+//           files: '_app_/helpers/svg-jar.js',
+//           pattern: '\\brequire\\b',
+//           flags: 'g',
+//           replacement: 'importSync',
+//         },
+//         {
+//           files: '_app_/helpers/svg-jar.js',
+//           pattern: '^',
+//           replacement: "import { importSync } from '@embroider/macros';\n",
+//         },
+//       ],
+//     }],
+//   ])
+export interface DeclarativeCompatAdapter {
+  // a semver range. The adapter only applies to versions of the addon that
+  // satisfy it.
+  versions?: string;
+
+  // edits to files in the addon's v2 output. File paths are relative to the
+  // root of the v2 package, so the files that the addon merges into the app
+  // are under "_app_/".
+  rewrites?: FileRewrite[];
+
+  // added to the addon's metadata. See AddonMeta for what each one means.
+  'implicit-modules'?: string[];
+  'implicit-test-modules'?: string[];
+  'renamed-modules'?: { [fromName: string]: string };
+  externals?: string[];
+
+  // trees that the v1 addon has but that shouldn't be part of its v2 output,
+  // like "app" or "vendor"
+  suppressedTrees?: AddonTreePath[];
+}
+
+export type FileRewrite = RegexRewrite | CodemodRewrite;
+
+export interface RegexRewrite {
+  // glob patterns for the files to rewrite
+  files: string | string[];
+  // a regular expression, written as a string when the adapter is JSON
+  pattern: string | RegExp;
+  // flags for a pattern written as a string, like "g"
+  flags?: string;
+  // follows the rules of String.prototype.replace, so "$1" works
+  replacement: string;
+}
+
+export interface CodemodRewrite {
+  // glob patterns for the files to rewrite
+  files: string | string[];
+  // babel plugins that transform each file
+  babelPlugins: PluginItem[];
+}
+
+export function isDeclarativeCompatAdapter(
+  adapter: V1AddonConstructor | DeclarativeCompatAdapter
+): adapter is DeclarativeCompatAdapter {
+  return typeof adapter !== 'function';
+}
+
+export function declarativeCompatAdapter(adapter: DeclarativeCompatAdapter): V1AddonConstructor {
+  return class extends V1Addon {
+    static shouldApplyAdapter(addonInstance: any) {
+      return !adapter.versions || semver.satisfies(addonInstance.pkg.version, adapter.versions);
+    }
+
+    protected suppressesTree(name: string): boolean {
+      return Boolean(adapter.suppressedTrees?.includes(name as AddonTreePath)) || super.suppressesTree(name);
+    }
+
+    protected get packageMeta(): Partial<AddonMeta> {
+      let meta = cloneDeep(super.packageMeta);
+      for (let field of ['implicit-modules', 'implicit-test-modules', 'externals'] as const) {
+        let additions = adapter[field];
+        if (additions) {
+          meta[field] = [...(meta[field] ?? []), ...additions];
+        }
+      }
+      if (adapter['renamed-modules']) {
+        meta['renamed-modules'] = { ...meta['renamed-modules'], ...adapter['renamed-modules'] };
+      }
+      return meta;
+    }
+
+    // every declarative adapter is this same class, so the adapter's own
+    // content has to be part of the key
+    get persistentCacheKey(): string | undefined {
+      let key = super.persistentCacheKey;
+      if (!key) {
+        return undefined;
+      }
+      let identity = JSON.stringify(adapter, (_key, value) =>
+        typeof value === 'function' || value instanceof RegExp ? String(value) : value
+      );
+      return createHash('sha1').update(key).update(identity).digest('hex');
+    }
+
+    get v2Tree(): Node {
+      let tree = super.v2Tree;
+      if (!adapter.rewrites?.length) {
+        return tree;
+      }
+      return mergeTrees([tree, new RewriteFiles(tree, this.name, adapter.rewrites)], { overwrite: true });
+    }
+  };
+}
+
+class RewriteFiles extends Plugin {
+  constructor(tree: Node, private addonName: string, private rewrites: FileRewrite[]) {
+    super([tree], {
+      annotation: `embroider:compat:rewrite-files:${addonName}`,
+      persistentOutput: false,
+      needsCache: false,
+    });
+  }
+
+  build() {
+    // several rewrites can apply to the same file, so they build on each other
+    let rewritten = new Map<string, string>();
+    for (let rewrite of this.rewrites) {
+      let globs = Array.isArray(rewrite.files) ? rewrite.files : [rewrite.files];
+      let files = walkSync(this.inputPaths[0], { globs, directories: false });
+      if (files.length === 0) {
+        warn(`the compat adapter for ${this.addonName} has a rewrite for ${globs.join(', ')}, which matched no files`);
+      }
+      for (let file of files) {
+        let source = rewritten.get(file) ?? readFileSync(join(this.inputPaths[0], file), 'utf8');
+        let result = applyRewrite(rewrite, source, join(this.inputPaths[0], file));
+        if ('pattern' in rewrite && result === source) {
+          // usually a new version of the addon changed the code the pattern
+          // was written against
+          warn(
+            `the compat adapter for ${this.addonName} has a rewrite of ${rewrite.pattern} in ${globs.join(
+              ', '
+            )}, which left ${file} unchanged`
+          );
+        }
+        rewritten.set(file, result);
+      }
+    }
+    for (let [file, source] of rewritten) {
+      outputFileSync(join(this.outputPath, file), source);
+    }
+  }
+}
+
+function applyRewrite(rewrite: FileRewrite, source: string, filename: string): string {
+  if ('babelPlugins' in rewrite) {
+    return transformSync(source, {
+      filename,
+      plugins: rewrite.babelPlugins,
+      configFile: false,
+      babelrc: false,
+    })!.code!;
+  }
+  let pattern = typeof rewrite.pattern === 'string' ? new RegExp(rewrite.pattern, rewrite.flags) : rewrite.pattern;
+  return source.replace(pattern, rewrite.replacement);
+}
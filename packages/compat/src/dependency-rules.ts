@@ -1,4 +1,4 @@
-import type { Resolver } from '@embroider/core';
+import type { Package, Resolver } from '@embroider/core';
 import { getOrCreate } from '@embroider/core';
 import { resolve } from 'path';
 import { satisfies } from 'semver';
@@ -40,6 +40,24 @@ export interface PackageRules {
   };
 }
 
+// The form of PackageRules that an addon can ship in its own package.json,
+// under "ember-addon.embroider-rules". These rules only ever apply to the addon
+// that ships them, and only to that copy of it. `package` defaults to the
+// addon's own name, and it's an error to name any other package:
+//
+//   "ember-addon": {
+//     "embroider-rules": [
+//       {
+//         "components": {
+//           "<MyModal />": { "yieldsSafeComponents": [{ "header": true }] }
+//         }
+//       }
+//     ]
+//   }
+export interface ShippedPackageRules extends Omit<PackageRules, 'package'> {
+  package?: string;
+}
+
 export interface ActivePackageRules extends PackageRules {
   // the location(s) of active packages that match this rule.
   roots: string[];
@@ -207,29 +225,142 @@ export function preprocessComponentRule(componentRules: ComponentRules): Preproc
   };
 }
 
+// the parts of PackageRules that are keyed by component or file, which is the
+// level where one rule can take precedence over another
+const ruleSections = ['components', 'addonModules', 'appModules', 'addonTemplates', 'appTemplates'] as const;
+
 export function activePackageRules(
   packageRules: PackageRules[],
-  activePackages: { name: string; root: string; version: string }[]
+  activePackages: { name: string; root: string; version: string }[],
+  layers: {
+    // from packageRulesFromDependencies
+    shipped?: ActivePackageRules[];
+    builtIn?: PackageRules[];
+  } = {}
 ): ActivePackageRules[] {
-  // rule order implies precedence. The first rule that matches a given package
-  // applies to that package, and no other rule does.
-  let rootsPerRule = new Map();
+  let { shipped = [], builtIn = [] } = layers;
+  let ranked = [...packageRules, ...builtIn];
+  let allRules = [...ranked, ...shipped];
+  let rootsPerRules = new Map<string, { rules: PackageRules[]; roots: string[] }>();
   for (let pkg of activePackages) {
-    for (let rule of packageRules) {
-      if (rule.package === pkg.name && (!rule.semverRange || satisfies(pkg.version, rule.semverRange))) {
-        let roots = getOrCreate(rootsPerRule, rule, () => []);
-        roots.push(pkg.root);
-        break;
-      }
+    // Rule order implies precedence. The first rule that matches a given
+    // package applies to that package, and no other one from packageRules or
+    // the built-ins does.
+    let first = ranked.find(rule => matches(rule, pkg));
+    // The rules that an addon ships for itself apply alongside that one. When
+    // they talk about the same component or file, the app's own rule wins over
+    // them, and they win over a built-in rule.
+    let ownRules = shipped.filter(rule => rule.roots.includes(pkg.root) && matches(rule, pkg));
+    let rules: PackageRules[];
+    if (!first) {
+      rules = ownRules;
+    } else if (packageRules.includes(first)) {
+      rules = [first, ...ownRules];
+    } else {
+      rules = [...ownRules, first];
     }
+    if (rules.length === 0) {
+      continue;
+    }
+    let key = rules.map(rule => allRules.indexOf(rule)).join(',');
+    getOrCreate(rootsPerRules, key, () => ({ rules, roots: [] })).roots.push(pkg.root);
   }
   let output = [];
-  for (let [rule, roots] of rootsPerRule) {
-    output.push(Object.assign({ roots }, rule));
+  for (let { rules, roots } of rootsPerRules.values()) {
+    output.push(Object.assign({}, mergeRules(rules), { roots }));
+  }
+  return output;
+}
+
+function matches(rule: PackageRules, pkg: { name: string; version: string }): boolean {
+  return rule.package === pkg.name && (!rule.semverRange || satisfies(pkg.version, rule.semverRange));
+}
+
+// earlier rules win when they have entries for the same component or file
+function mergeRules(rules: PackageRules[]): PackageRules {
+  if (rules.length === 1) {
+    return rules[0];
+  }
+  let merged: PackageRules = { package: rules[0].package };
+  for (let section of ruleSections) {
+    // later rules go first, so that earlier rules overwrite their entries
+    let entries = rules.map(rule => rule[section]).filter(Boolean);
+    if (entries.length > 0) {
+      merged[section] = Object.assign({}, ...entries.reverse());
+    }
+  }
+  return merged;
+}
+
+// Collects the rules that addons ship in their own package.json. Each one is
+// limited to the root of the addon that ships it, so it can't affect another
+// copy of the addon, let alone a different package. See activePackageRules for
+// how they combine with the app's own packageRules and our built-in rules.
+export function packageRulesFromDependencies(packages: Package[]): ActivePackageRules[] {
+  let output: ActivePackageRules[] = [];
+  for (let pkg of packages) {
+    let shipped = pkg.isV2Addon() ? pkg.meta['embroider-rules'] : undefined;
+    if (shipped === undefined) {
+      continue;
+    }
+    if (!Array.isArray(shipped)) {
+      throw new Error(
+        `${pkg.name} has an invalid "ember-addon.embroider-rules" in its package.json. It must be an array of package rules.`
+      );
+    }
+    shipped.forEach((rule: unknown, index) => {
+      let problem = shippedRuleProblem(rule, pkg.name);
+      if (problem) {
+        throw new Error(
+          `${pkg.name} has an invalid "ember-addon.embroider-rules" in its package.json. Entry ${index} ${problem}.`
+        );
+      }
+      let valid = rule as ShippedPackageRules;
+      output.push({ ...valid, package: pkg.name, roots: [pkg.root] });
+    });
   }
   return output;
 }
 
+function shippedRuleProblem(rule: unknown, packageName: string): string | undefined {
+  if (!isObject(rule)) {
+    return 'must be an object';
+  }
+  for (let key of ['package', 'semverRange']) {
+    if (rule[key] !== undefined && typeof rule[key] !== 'string') {
+      return `has a "${key}" that must be a string`;
+    }
+  }
+  if (rule.package !== undefined && rule.package !== packageName) {
+    return `names "${rule.package}" as its package, but an addon can only ship rules for itself`;
+  }
+  for (let section of ruleSections) {
+    if (rule[section] === undefined) {
+      continue;
+    }
+    let entries = rule[section];
+    if (!isObject(entries)) {
+      return `has a "${section}" that must be an object`;
+    }
+    for (let [name, value] of Object.entries(entries)) {
+      if (!isObject(value)) {
+        return `has a "${section}" entry for "${name}" that must be an object`;
+      }
+    }
+  }
+  let unknown = Object.keys(rule).filter(
+    key => key !== 'package' && key !== 'semverRange' && !(ruleSections as readonly string[]).includes(key)
+  );
+  if (unknown.length > 0) {
+    return `has unknown keys: ${unknown.join(', ')}`;
+  }
+  return undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 export function appTreeRulesDir(root: string, resolver: Resolver) {
   let pkg = resolver.packageCache.ownerOfFile(root);
   if (pkg?.isV2Addon()) {
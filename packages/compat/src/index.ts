@@ -2,5 +2,6 @@ export { default as App } from './compat-app';
 export { default as Addons } from './compat-addons';
 export { default as Options, recommendedOptions } from './options';
 export { default as V1Addon } from './v1-addon';
+export { DeclarativeCompatAdapter, FileRewrite, RegexRewrite, CodemodRewrite } from './declarative-compat-adapter';
 export { default as compatBuild, PipelineOptions } from './default-pipeline';
-export { PackageRules, ModuleRules } from './dependency-rules';
+export { PackageRules, ModuleRules, ShippedPackageRules } from './dependency-rules';
@@ -3,6 +3,7 @@ import type { Node } from 'broccoli-node-api';
 import type { Options as CoreOptions } from '@embroider/core';
 import { optionsWithDefaults as coreWithDefaults } from '@embroider/core';
 import type { PackageRules } from './dependency-rules';
+import type { DeclarativeCompatAdapter } from './declarative-compat-adapter';
 
 // These options control how hard we will try to achieve compatibility with v1
 // addons. The defaults are conservative and try to maximize compatibility, at
@@ -66,10 +67,14 @@ export default interface Options extends CoreOptions {
   // the real solution will be converting the addon in question to natively
   // publish as v2.
   //
+  // Instead of a V1Addon subclass, an adapter can also be a
+  // DeclarativeCompatAdapter: a plain object (that can come from a JSON file)
+  // describing common fixes like file rewrites and extra package metadata.
+  //
   // We ship with some default compatAdapters to fix otherwise incompatible
   // behaviors in popular addons. You can override the default adapters by
   // setting your own value here (including null to completely disable it).
-  compatAdapters?: Map<string, V1AddonConstructor | null>;
+  compatAdapters?: Map<string, V1AddonConstructor | DeclarativeCompatAdapter | null>;
 
   // optional list of additional broccoli trees that should be incorporated into
   // the final build. This exists because the classic `app.toTree()` method
@@ -85,12 +90,34 @@ export default interface Options extends CoreOptions {
   // See the addon-dependency-rules directory in the @embroider/compat package
   // for the built-in rules.
   //
+  // Addons can also ship rules for themselves in their own package.json, under
+  // "ember-addon.embroider-rules" (see ShippedPackageRules). NOTE: unlike your
+  // rules and the built-ins, those don't stop at the first match. They get
+  // merged with whichever of your rules or the built-ins applies to the same
+  // addon. When both talk about the same component or file, your rule wins
+  // over the addon's, and the addon's wins over a built-in one.
+  //
+  // `embroider-compat-audit infer-rules` proposes rules for the dynamic
+  // component and ambiguity problems that an audit finds.
+  //
   // These ONLY APPLY to v1-formatted addons. An addon that ships as native v2
   // is expected to do the right thing on its own.
   //
   // Follow to the definition of PackageRules for more info.
   packageRules?: PackageRules[];
 
+  // When true, we keep the converted v2 form of each v1 addon in
+  // node_modules/.embroider/addon-cache, and reuse it on later builds as long
+  // as the addon's package.json, its cacheKeyForTree, its installed
+  // dependencies, its compat adapter and the relevant build config haven't
+  // changed. This makes cold builds (like in CI, if you persist that directory)
+  // skip converting unchanged addons.
+  //
+  // Addons that don't implement cacheKeyForTree for all their trees, and
+  // addons that aren't installed under node_modules (like in-repo addons), are
+  // always converted. See V1Addon.persistentCacheKey for what the key covers.
+  persistentAddonCache?: boolean;
+
   // This turns build errors into runtime errors. It is not a good idea to keep
   // it on in production. But it can be helpful when testing how much of your
   // app is able to work with staticComponents enabled.
@@ -106,6 +133,7 @@ const defaults = Object.assign(coreWithDefaults(), {
   workspaceDir: null,
   packageRules: [],
   allowUnsafeDynamicComponents: false,
+  persistentAddonCache: false,
 });
 
 export function optionsWithDefaults(options?: Options): Required<Options> {
@@ -0,0 +1,113 @@
+import type { Node } from 'broccoli-node-api';
+import type { Package } from '@embroider/core';
+import { debug, locateEmbroiderWorkingDir } from '@embroider/core';
+import Plugin from 'broccoli-plugin';
+import { UnwatchedDir } from 'broccoli-source';
+import broccoliMergeTrees from 'broccoli-merge-trees';
+import { copySync, existsSync, readdirSync, removeSync, renameSync, statSync, utimesSync } from 'fs-extra';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import type V1Addon from './v1-addon';
+
+// Keeps the converted v2 form of v1 addons on disk between builds, keyed on
+// everything that goes into the conversion. A fresh build can then use an
+// addon's previous output instead of converting it again.
+//
+// Each addon keeps only its most recently used entries, so the cache doesn't
+// grow with every upgrade.
+export default class PersistentAddonCache {
+  private dir: string;
+
+  // the entries that this build reads or writes, which pruning must not remove
+  // even when the build uses more than a few versions of an addon
+  private inUse = new Set<string>();
+
+  constructor(appRoot: string) {
+    this.dir = join(locateEmbroiderWorkingDir(appRoot), 'addon-cache');
+  }
+
+  // `addons` are all the instances of the package that went into `build`.
+  through(originalPackage: Package, addons: V1Addon[], build: () => Node): Node {
+    let key = cacheKey(addons);
+    if (!key) {
+      debug('addon cache: %s is uncacheable', originalPackage.name);
+      return build();
+    }
+    let prefix = `${originalPackage.name.replace(/\//g, '__')}-`;
+    let cachedDir = join(this.dir, `${prefix}${key}`);
+    this.inUse.add(cachedDir);
+    if (existsSync(cachedDir)) {
+      debug('addon cache hit %s', originalPackage.name);
+      // the modification time is what pruning goes by
+      let now = new Date();
+      utimesSync(cachedDir, now, now);
+      return new UnwatchedDir(cachedDir);
+    }
+    debug('addon cache miss %s', originalPackage.name);
+    let tree = build();
+    return broccoliMergeTrees([tree, new WriteAddonCache(tree, cachedDir, () => prune(this.dir, prefix, this.inUse))]);
+  }
+}
+
+// how many entries we keep for each addon. More than one, so that switching
+// between branches doesn't keep throwing entries out.
+const entriesPerAddon = 3;
+
+// Removes all but the most recently used entries of one addon. Entries that the
+// current build uses always stay.
+export function prune(cacheDir: string, prefix: string, inUse: Set<string>): void {
+  let pattern = new RegExp(`^${prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[0-9a-f]{40}$`);
+  let entries = readdirSync(cacheDir)
+    .filter(name => pattern.test(name))
+    .map(name => ({ dir: join(cacheDir, name), mtime: statSync(join(cacheDir, name)).mtimeMs }))
+    .sort((a, b) => b.mtime - a.mtime);
+  for (let { dir } of entries.slice(entriesPerAddon).filter(({ dir }) => !inUse.has(dir))) {
+    debug('addon cache prune %s', dir);
+    removeSync(dir);
+  }
+}
+
+function cacheKey(addons: V1Addon[]): string | undefined {
+  let hash = createHash('sha1');
+  for (let addon of addons) {
+    let key = addon.persistentCacheKey;
+    if (!key) {
+      return undefined;
+    }
+    hash.update(key);
+  }
+  return hash.digest('hex');
+}
+
+// Copies its input into the cache the first time it builds. Its own output
+// stays empty, because the input is already part of the build.
+class WriteAddonCache extends Plugin {
+  constructor(tree: Node, private cachedDir: string, private afterWrite: () => void) {
+    super([tree], {
+      annotation: 'embroider:compat:write-addon-cache',
+      persistentOutput: true,
+      needsCache: false,
+    });
+  }
+
+  build() {
+    if (existsSync(this.cachedDir)) {
+      return;
+    }
+    // other builds can share the cache, so we only ever move complete copies
+    // into place
+    let tmpDir = `${this.cachedDir}.${process.pid}.tmp`;
+    removeSync(tmpDir);
+    copySync(this.inputPaths[0], tmpDir, { dereference: true });
+    try {
+      renameSync(tmpDir, this.cachedDir);
+    } catch (err) {
+      if (!existsSync(this.cachedDir)) {
+        throw err;
+      }
+      // another build got there first
+      removeSync(tmpDir);
+    }
+    this.afterWrite();
+  }
+}
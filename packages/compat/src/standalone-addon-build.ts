@@ -2,6 +2,7 @@ import type { Package, RewrittenPackageIndex } from '@embroider/core';
 import { PackageCache, summarizePeerDepViolations, validatePeerDependencies } from '@embroider/core';
 import V1InstanceCache from './v1-instance-cache';
 import buildCompatAddon from './build-compat-addon';
+import PersistentAddonCache from './persistent-addon-cache';
 import { Funnel } from 'broccoli-funnel';
 import crypto from 'crypto';
 import broccoliMergeTrees from 'broccoli-merge-trees';
@@ -44,9 +45,11 @@ ${summarizePeerDepViolations(violations)}
   let v1Addons = findV1Addons(appPackage);
   let index = buildAddonIndex(compatApp, appPackage, v1Addons);
 
+  let addonCache = compatApp.options.persistentAddonCache ? new PersistentAddonCache(compatApp.root) : undefined;
+
   let interiorTrees: Node[] = [];
   let exteriorTrees = [...v1Addons].map(pkg => {
-    let interior = buildCompatAddon(pkg, instanceCache);
+    let interior = buildCompatAddon(pkg, instanceCache, addonCache);
     interiorTrees.push(interior);
     return new Funnel(interior, { destDir: index.packages[pkg.root] });
   });
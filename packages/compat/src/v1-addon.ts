@@ -1,5 +1,6 @@
 import { Memoize } from 'typescript-memoize';
-import { dirname, join, relative, resolve } from 'path';
+import { createHash } from 'crypto';
+import { dirname, join, relative, resolve, sep } from 'path';
 import { sync as pkgUpSync } from 'pkg-up';
 import { existsSync, pathExistsSync } from 'fs-extra';
 import type { Options as FunnelOptions } from 'broccoli-funnel';
@@ -13,7 +14,7 @@ import semver from 'semver';
 import rewriteAddonTree from './rewrite-addon-tree';
 import { mergeWithAppend } from './merges';
 import type { AddonMeta, PackageCache, AddonInstance, AddonTreePath } from '@embroider/core';
-import { debug } from '@embroider/core';
+import { debug, dynamicTreeHooks, stockTreeNames } from '@embroider/core';
 import type Options from './options';
 import walkSync from 'walk-sync';
 import ObserveTree from './observe-tree';
@@ -36,31 +37,21 @@ import getRealAddon from './get-real-addon';
 import type { Options as EtcOptions } from 'babel-plugin-ember-template-compilation';
 import type CompatApp from './compat-app';
 
-const stockTreeNames: AddonTreePath[] = Object.freeze([
+// these are all the kinds of trees that ember-cli's tree cache understands. Our
+// v2Tree depends on all of them, so if *any* of these are uncacheable, we want
+// our whole v2 tree to be treated as uncacheable.
+const v2TreeNames = [
+  'app',
   'addon',
   'addon-styles',
-  'styles',
+  'addon-templates',
   'addon-test-support',
-  'test-support',
-  'app',
   'public',
+  'styles',
+  'templates',
+  'test-support',
   'vendor',
-  // 'addon-templates' and 'templates are trees too, but they live inside
-  // 'addon' and 'app' and we handle them there.
-]) as AddonTreePath[];
-
-const dynamicTreeHooks = Object.freeze([
-  'treeFor',
-  'treeForAddon',
-  'treeForAddonTemplates',
-  'treeForAddonTestSupport',
-  'treeForApp',
-  'treeForPublic',
-  'treeForStyles',
-  'treeForTemplates',
-  'treeForTestSupport',
-  'treeForVendor',
-]);
+];
 
 const defaultMethods = {
   app: 'treeForApp',
@@ -276,6 +267,13 @@ export default class V1Addon {
     let meta: AddonMeta = Object.assign({}, this.packageCache.get(this.root).meta, this.packageMeta);
     pkg['ember-addon'] = meta;
 
+    // rules that the addon ships for our template resolver stay with it, so the
+    // app can find them (see ShippedPackageRules)
+    let rules = (this.packageJSON['ember-addon'] as Partial<AddonMeta> | undefined)?.['embroider-rules'];
+    if (rules) {
+      meta['embroider-rules'] = rules;
+    }
+
     // classic addons don't get to customize their entrypoints like this. We
     // always rewrite them so their entrypoint is index.js, so whatever was here
     // is just misleading to stage3 packagers that might look (rollup does).
@@ -531,25 +529,7 @@ export default class V1Addon {
   }
 
   get v2Tree(): Node {
-    return this.throughTreeCache(
-      // these are all the kinds of trees that ember-cli's tree cache
-      // understands. We need them all here because if *any* of these are
-      // uncacheable, we want our whole v2 tree to be treated as uncacheable.
-      [
-        'app',
-        'addon',
-        'addon-styles',
-        'addon-templates',
-        'addon-test-support',
-        'public',
-        'styles',
-        'templates',
-        'test-support',
-        'vendor',
-      ],
-      'v2Tree',
-      () => mergeTrees(this.v2Trees, { overwrite: true })
-    );
+    return this.throughTreeCache(v2TreeNames, 'v2Tree', () => mergeTrees(this.v2Trees, { overwrite: true }));
   }
 
   // this is split out so that compatibility shims can override it to add more
@@ -573,34 +553,142 @@ export default class V1Addon {
     return trees;
   }
 
+  // combines the addon's cacheKeyForTree for each of the given trees, or is
+  // undefined if any of them are uncacheable
+  private treeCacheKey(names: string[]): string | undefined {
+    if (typeof this.addonInstance.cacheKeyForTree !== 'function') {
+      return undefined;
+    }
+    return names.reduce((accum: string | undefined, name) => {
+      if (accum == null) {
+        // a previous name was uncacheable, so we're entirely uncacheable
+        return undefined;
+      }
+      let key = this.addonInstance.cacheKeyForTree?.(name);
+      if (key) {
+        return accum + key;
+      } else {
+        return undefined;
+      }
+    }, '');
+  }
+
+  // Identifies everything that goes into our v2Tree, so that a converted copy
+  // of it can be reused by later builds (see the persistentAddonCache option).
+  // This is undefined when the addon can't be safely cached, either because
+  // one of its trees is uncacheable or because its files (or the files of one
+  // of its dependencies) can change without its package.json changing.
+  //
+  // Compat adapters that depend on anything beyond the addon's own inputs and
+  // options (including code that they import from other modules) can override
+  // this to add to it, or to return undefined.
+  @Memoize()
+  get persistentCacheKey(): string | undefined {
+    // in-repo and linked addons get edited in place
+    if (!isInstalled(this.root)) {
+      return undefined;
+    }
+    if (process.env.EMBROIDER_REBUILD_ADDONS?.split(',').includes(this.name)) {
+      return undefined;
+    }
+    let treeKey = this.treeCacheKey(v2TreeNames);
+    if (!treeKey) {
+      return undefined;
+    }
+    let dependencies = this.resolvedDependencies();
+    if (!dependencies) {
+      return undefined;
+    }
+    let compat = this.packageCache.ownerOfFile(__filename);
+    let hash = createHash('sha1');
+    for (let part of [
+      JSON.stringify(this.packageJSON),
+      treeKey,
+      // the lockfile can move our dependencies (like ember-cli-babel) without
+      // our package.json changing
+      dependencies,
+      compat?.version ?? '',
+      // the adapter's source stands in for its version, since adapters can
+      // come from the app itself
+      ...this.adapterSources(),
+      this.conversionConfig(),
+      this.app.env,
+      String(this.app.hasCompiledStyles),
+      String(this.addonOptions.staticAddonTrees),
+      String(this.addonOptions.staticAddonTestSupportTrees),
+    ]) {
+      hash.update(part);
+      hash.update('\0');
+    }
+    return hash.digest('hex');
+  }
+
+  // the name and version of every package we depend on, directly or not. This
+  // is undefined when any of them is in-repo or linked.
+  private resolvedDependencies(): string | undefined {
+    let seen = new Set<string>();
+    let queue = [this.packageCache.get(this.root)];
+    while (queue.length > 0) {
+      for (let dep of queue.shift()!.dependencies) {
+        if (!isInstalled(dep.root)) {
+          return undefined;
+        }
+        let id = `${dep.name}@${dep.version}`;
+        if (!seen.has(id)) {
+          seen.add(id);
+          queue.push(dep);
+        }
+      }
+    }
+    return [...seen].sort().join(',');
+  }
+
+  // the source of our compat adapter, including the adapters it extends
+  private adapterSources(): string[] {
+    let sources = [];
+    for (
+      let klass = this.constructor;
+      klass !== V1Addon && klass !== Function.prototype;
+      klass = Object.getPrototypeOf(klass)
+    ) {
+      sources.push(klass.toString());
+    }
+    return sources;
+  }
+
+  // the babel plugins and template transforms that run over our code during
+  // conversion. Some of these come from the app, because ember-cli shares
+  // parts of the app's config with its addons.
+  private conversionConfig(): string {
+    let babel = this.options.babel as TransformOptions | undefined;
+    let config: Record<string, unknown> = {
+      babelPlugins: babel?.plugins?.filter(babelPluginAllowedInStage1),
+      emberCLIBabel: this.options['ember-cli-babel'],
+    };
+    let htmlbars = this.addonInstance.addons.find(a => a.name === 'ember-cli-htmlbars');
+    if (htmlbars) {
+      let options = (htmlbars as any).htmlbarsOptions() as HTMLBarsOptions;
+      config.astPlugins = options?.plugins?.ast?.filter((p: any) => !isEmbroiderMacrosPlugin(p));
+      if (options?.templateCompilerPath) {
+        config.templateCompiler = this.packageCache.ownerOfFile(options.templateCompilerPath)?.version;
+      }
+    }
+    return fingerprint(config);
+  }
+
   protected throughTreeCache(nameOrNames: string | string[], category: string, fn: () => Node): Node;
   protected throughTreeCache(
     nameOrNames: string | string[],
     category: string,
     fn: () => Node | undefined
   ): Node | undefined {
-    let cacheKey: string | undefined;
-    if (typeof this.addonInstance.cacheKeyForTree === 'function') {
-      let names = Array.isArray(nameOrNames) ? nameOrNames : [nameOrNames];
-      cacheKey = names.reduce((accum: string | undefined, name) => {
-        if (accum == null) {
-          // a previous name was uncacheable, so we're entirely uncacheable
-          return undefined;
-        }
-        let key = this.addonInstance.cacheKeyForTree?.(name);
-        if (key) {
-          return accum + key;
-        } else {
-          return undefined;
-        }
-      }, '');
-      if (cacheKey) {
-        cacheKey = cacheKey + category;
-        let cachedTree = this.app.addonTreeCache.get(cacheKey);
-        if (cachedTree) {
-          debug('cache hit %s %s %s', this.name, nameOrNames, category);
-          return cachedTree;
-        }
+    let cacheKey = this.treeCacheKey(Array.isArray(nameOrNames) ? nameOrNames : [nameOrNames]);
+    if (cacheKey) {
+      cacheKey = cacheKey + category;
+      let cachedTree = this.app.addonTreeCache.get(cacheKey);
+      if (cachedTree) {
+        debug('cache hit %s %s %s', this.name, nameOrNames, category);
+        return cachedTree;
       }
     }
     debug('cache miss %s %s %s', this.name, nameOrNames, category);
@@ -1084,6 +1172,28 @@ class IntermediateBuild {
   dynamicMeta: (() => Partial<AddonMeta>)[] = [];
 }
 
+function isInstalled(root: string): boolean {
+  return root.split(sep).includes('node_modules');
+}
+
+// like JSON.stringify, but it also covers functions (by their source) and
+// tolerates cycles
+function fingerprint(value: unknown): string {
+  let seen = new WeakSet<object>();
+  return JSON.stringify(value, (_key, v) => {
+    if (typeof v === 'function') {
+      return v.toString();
+    }
+    if (v && typeof v === 'object') {
+      if (seen.has(v)) {
+        return '[seen]';
+      }
+      seen.add(v);
+    }
+    return v;
+  });
+}
+
 function babelPluginAllowedInStage1(plugin: PluginItem) {
   if (isEmbroiderMacrosPlugin(plugin)) {
     // the point of @embroider/macros is that it's allowed to stay in v2
@@ -4,6 +4,7 @@
 
 import type { V1AddonConstructor } from './v1-addon';
 import V1Addon from './v1-addon';
+import { declarativeCompatAdapter, isDeclarativeCompatAdapter } from './declarative-compat-adapter';
 import { pathExistsSync } from 'fs-extra';
 import type { AddonInstance, PackageCache } from '@embroider/core';
 import { getOrCreate } from '@embroider/core';
@@ -31,12 +32,14 @@ export default class V1InstanceCache {
     let packageName = addonInstance.pkg.name;
     // if the user registered something (including "null", which allows
     // disabling the built-in adapters), that takes precedence.
-    let AdapterClass = this.app.options.compatAdapters.get(packageName);
+    let adapter = this.app.options.compatAdapters.get(packageName);
 
-    if (AdapterClass === null) {
+    if (adapter === null) {
       return V1Addon;
     }
 
+    let AdapterClass = adapter && isDeclarativeCompatAdapter(adapter) ? declarativeCompatAdapter(adapter) : adapter;
+
     if (!AdapterClass) {
       let path = `${__dirname}/compat-adapters/${packageName}.js`;
       if (pathExistsSync(path)) {
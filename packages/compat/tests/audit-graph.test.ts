@@ -0,0 +1,93 @@
+import type { Module } from '../src/audit';
+import { AuditResults } from '../src/audit';
+import { ModuleGraph } from '../src/audit/graph';
+
+describe('audit module graph', function () {
+  function graph(modules: Record<string, { entrypoint?: boolean; imports?: string[] }>) {
+    let results = new AuditResults();
+    for (let [name, { entrypoint, imports = [] }] of Object.entries(modules)) {
+      let module: Module = {
+        appRelativePath: name,
+        consumedFrom: entrypoint ? [{ isRoot: true }] : [],
+        imports: imports.map(source => ({ source, specifiers: [] })),
+        exports: [],
+        resolutions: Object.fromEntries(imports.map(source => [source, source])),
+        content: '',
+      };
+      results.modules[name] = module;
+    }
+    return new ModuleGraph(results);
+  }
+
+  let example = () =>
+    graph({
+      './index.html': { entrypoint: true, imports: ['./app.js'] },
+      './app.js': { imports: ['./a.js', './node_modules/heavy/index.js'] },
+      './a.js': { imports: ['./b.js'] },
+      './b.js': { imports: ['./c.js', './node_modules/heavy/util.js'] },
+      './c.js': { imports: ['./a.js'] },
+      './node_modules/heavy/index.js': { imports: ['./node_modules/heavy/util.js'] },
+      './node_modules/heavy/util.js': {},
+      './unreachable.js': { imports: ['./node_modules/heavy/util.js'] },
+    });
+
+  test('finds who imports a package', function () {
+    expect(example().whoImports('node_modules/heavy/')).toEqual([
+      { importer: './app.js', imported: './node_modules/heavy/index.js' },
+      { importer: './b.js', imported: './node_modules/heavy/util.js' },
+      { importer: './unreachable.js', imported: './node_modules/heavy/util.js' },
+    ]);
+  });
+
+  test('finds the shortest path from an entrypoint', function () {
+    let g = example();
+    expect(g.pathTo('./node_modules/heavy/util.js')).toEqual([
+      './index.html',
+      './app.js',
+      './node_modules/heavy/index.js',
+      './node_modules/heavy/util.js',
+    ]);
+    expect(g.pathTo('./c.js')).toEqual(['./index.html', './app.js', './a.js', './b.js', './c.js']);
+    expect(g.pathTo('./unreachable.js')).toBeUndefined();
+  });
+
+  test('finds strongly connected components', function () {
+    expect(example().stronglyConnectedComponents()).toEqual([['./a.js', './b.js', './c.js']]);
+  });
+
+  test('exports DOT', function () {
+    let dot = graph({
+      './index.html': { entrypoint: true, imports: ['./app.js'] },
+      './app.js': {},
+    }).toDOT();
+    expect(dot).toEqual(
+      [
+        'digraph modules {',
+        '  node [shape=box, fontname="monospace"];',
+        '  "./index.html" [style=bold];',
+        '  "./app.js";',
+        '  "./index.html" -> "./app.js";',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('exports GraphML', function () {
+    let graphML = graph({
+      './index.html': { entrypoint: true, imports: ['./a&b.js'] },
+      './a&b.js': {},
+    }).toGraphML();
+    expect(graphML).toContain('<data key="name">./a&amp;b.js</data>');
+    expect(graphML).toContain('<edge id="e0" source="n0" target="n1"/>');
+  });
+
+  test('exports self-contained HTML', function () {
+    let html = graph({
+      './index.html': { entrypoint: true, imports: ['./</script>.js'] },
+      './</script>.js': {},
+    }).toHTML();
+    expect(html).toContain('"modules":["./index.html","./\\u003c/script>.js"]');
+    expect(html).not.toMatch(/<script[^>]+src=/);
+  });
+});
@@ -3,9 +3,13 @@ import { Project } from 'scenario-tester';
 import type { AppMeta } from '@embroider/core';
 import { throwOnWarnings } from '@embroider/core';
 import merge from 'lodash/merge';
+import { existsSync, readJSONSync } from 'fs-extra';
+import { join } from 'path';
 import fromPairs from 'lodash/fromPairs';
-import type { Finding } from '../src/audit';
-import { Audit } from '../src/audit';
+import type { AuditOptions, Finding } from '../src/audit';
+import { Audit, AuditResults } from '../src/audit';
+import { diffAuditResults } from '../src/audit/diff';
+import { inferPackageRules, packageRulesFile } from '../src/audit/infer-rules';
 import type { CompatResolverOptions } from '../src/resolver-transform';
 import type { TransformOptions } from '@babel/core';
 import type { Options as InlinePrecompileOptions } from 'babel-plugin-ember-template-compilation';
@@ -18,9 +22,9 @@ describe('audit', function () {
 
   let app: Project;
 
-  async function audit() {
+  async function audit(options: AuditOptions = {}) {
     await app.write();
-    let audit = new Audit(app.baseDir);
+    let audit = new Audit(app.baseDir, options);
     return await audit.run();
   }
 
@@ -138,6 +142,201 @@ describe('audit', function () {
     expect(Object.keys(result.modules).length).toBe(2);
   });
 
+  test(`reports findings as SARIF`, async function () {
+    merge(app.files, {
+      'app.js': `
+        import { a, b } from './unknown';
+      `,
+    });
+    let result = await audit();
+    let [run] = result.sarif().runs;
+    expect(run.tool.driver.name).toBe('embroider-compat-audit');
+    expect(run.tool.driver.rules).toEqual([
+      { id: 'unable-to-resolve-dependency', shortDescription: { text: 'unable to resolve dependency' } },
+    ]);
+    expect(run.results).toEqual([
+      expect.objectContaining({
+        ruleId: 'unable-to-resolve-dependency',
+        ruleIndex: 0,
+        message: { text: 'unable to resolve dependency: ./unknown' },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'app.js', uriBaseId: '%SRCROOT%' },
+              region: { startLine: 2, startColumn: 30, endLine: 2, endColumn: 41 },
+            },
+          },
+        ],
+      }),
+    ]);
+  });
+
+  test(`points SARIF at the original source of a rewritten app`, async function () {
+    let source = {
+      'app.js': `
+        import Hello from './hello.hbs';
+        import { a } from './unknown';
+      `,
+      'hello.hbs': `<NoSuchThing />`,
+    };
+    await app.write();
+    let resolverConfig: CompatResolverOptions = readJSONSync(
+      join(app.baseDir, 'node_modules', '.embroider', 'resolver.json')
+    );
+    // the app's engine lives where stage 2 writes the rewritten app
+    resolverConfig.engines[0].root = join(app.baseDir, 'node_modules', '.embroider', 'rewritten-app');
+    merge(app.files, {
+      app: source,
+      node_modules: {
+        '.embroider': {
+          'resolver.json': JSON.stringify(resolverConfig),
+          'rewritten-app': {
+            ...source,
+            'package.json': JSON.stringify(app.pkg),
+            'index.html': app.files['index.html'],
+            'babel_config.js': app.files['babel_config.js'],
+          },
+          'rewritten-packages': {
+            'index.json': JSON.stringify({ packages: { [app.baseDir]: '../rewritten-app' }, extraResolutions: {} }),
+          },
+        },
+      },
+    });
+    let result = await audit();
+    let locations = result
+      .sarif()
+      .runs[0].results.map(r => ({ ruleId: r.ruleId, physicalLocation: r.locations[0].physicalLocation }));
+    expect(locations).toEqual([
+      {
+        ruleId: 'unable-to-resolve-dependency',
+        physicalLocation: {
+          artifactLocation: { uri: 'app/app.js', uriBaseId: '%SRCROOT%' },
+          region: { startLine: 3, startColumn: 27, endLine: 3, endColumn: 38 },
+        },
+      },
+      {
+        // the audit saw the template as generated Javascript, so its line
+        // numbers don't apply to the original
+        ruleId: 'unable-to-resolve-dependency',
+        physicalLocation: { artifactLocation: { uri: 'app/hello.hbs', uriBaseId: '%SRCROOT%' } },
+      },
+    ]);
+    for (let { physicalLocation } of locations) {
+      expect(existsSync(join(app.baseDir, physicalLocation.artifactLocation.uri))).toBe(true);
+    }
+  });
+
+  test(`diffs two sets of results`, async function () {
+    let before = new AuditResults();
+    before.findings = [
+      { filename: './app.js', message: 'unable to resolve dependency', detail: './unknown' },
+      { filename: './app.js', message: 'unable to resolve dependency', detail: './gone' },
+    ];
+    let after = new AuditResults();
+    after.findings = [
+      { filename: './app.js', message: 'unable to resolve dependency', detail: './unknown' },
+      { filename: './app.js', message: 'unable to resolve dependency', detail: './unknown' },
+    ];
+    expect(diffAuditResults(before, after)).toEqual({
+      added: [{ filename: './app.js', message: 'unable to resolve dependency', detail: './unknown' }],
+      resolved: [{ filename: './app.js', message: 'unable to resolve dependency', detail: './gone' }],
+    });
+    expect(diffAuditResults(after, after)).toEqual({ added: [], resolved: [] });
+  });
+
+  test(`infers package rules from template findings`, async function () {
+    merge(app.files, {
+      'app.js': `import FancyBox from './templates/components/fancy-box.hbs';`,
+      templates: {
+        components: {
+          'fancy-box.hbs': `{{component @content}}{{component this.other}}{{title}}`,
+        },
+      },
+    });
+    let result = await audit();
+    let { packages, unaddressed } = inferPackageRules(result, 'audit-this-app');
+    // only a human can say which components this.other holds
+    expect(withoutCodeFrames(unaddressed)).toEqual([
+      {
+        filename: './templates/components/fancy-box.hbs',
+        message: 'Unsafe dynamic component',
+        detail: 'this.other',
+      },
+    ]);
+    expect(packages.map(p => p.rules)).toEqual([
+      {
+        package: 'audit-this-app',
+        components: {
+          '{{fancy-box}}': {
+            acceptsComponentArguments: ['content'],
+            layout: { appPath: 'templates/components/fancy-box.hbs' },
+          },
+        },
+        appTemplates: {
+          'templates/components/fancy-box.hbs': {
+            disambiguate: { title: 'data' },
+          },
+        },
+      },
+    ]);
+    expect(packages[0].notes.map(n => [n.location, n.confidence])).toEqual([
+      ['components["{{fancy-box}}"].acceptsComponentArguments: "content"', 'high'],
+      ['appTemplates["templates/components/fancy-box.hbs"].disambiguate["title"]', 'low'],
+    ]);
+    expect(packageRulesFile(packages[0])).toMatch(/^\/\/   high confidence: /m);
+
+    // the rules are ready to use as they are, and they address everything
+    // except what we left unaddressed
+    let resolverConfig: CompatResolverOptions = readJSONSync(
+      join(app.baseDir, 'node_modules/.embroider/resolver.json')
+    );
+    resolverConfig.activePackageRules = [{ ...packages[0].rules, roots: [app.baseDir] }];
+    merge(app.files, { node_modules: { '.embroider': { 'resolver.json': JSON.stringify(resolverConfig) } } });
+    result = await audit();
+    expect(withoutCodeFrames(result.findings)).toEqual(withoutCodeFrames(unaddressed));
+  });
+
+  test(`infers package rules for addon templates`, async function () {
+    let results = new AuditResults();
+    results.modules = { './node_modules/@acme/widgets/helpers/format-price.js': {} as any };
+    results.findings = [
+      {
+        filename: './node_modules/@acme/widgets/_app_/components/price-tag.hbs',
+        message: 'Unsafe dynamic component',
+        detail: '@icon',
+      },
+      {
+        filename: './node_modules/@acme/widgets/templates/receipt.hbs',
+        message: 'unsupported ambiguous syntax',
+        detail: '"{{format-price}}" is ambiguous and could mean "{{this.format-price}}" or component "<FormatPrice />"',
+      },
+      {
+        filename: './node_modules/@acme/widgets/templates/receipt.hbs',
+        message: 'Unsafe dynamic component',
+        detail: 'cannot statically analyze this expression',
+      },
+    ];
+    let { packages, unaddressed } = inferPackageRules(results, 'my-app');
+    expect(packages.map(p => p.rules)).toEqual([
+      {
+        package: '@acme/widgets',
+        components: {
+          '{{price-tag}}': {
+            acceptsComponentArguments: ['icon'],
+            layout: { addonPath: '_app_/components/price-tag.hbs' },
+          },
+        },
+        addonTemplates: {
+          'templates/receipt.hbs': {
+            disambiguate: { 'format-price': 'helper' },
+          },
+        },
+      },
+    ]);
+    expect(packages[0].notes.map(n => n.confidence)).toEqual(['high', 'medium']);
+    expect(unaddressed).toEqual([results.findings[2]]);
+  });
+
   test(`ignores absolute URLs in script tags`, async function () {
     merge(app.files, {
       'index.html': `<script type="module" src="https://example.com/foo.js"></script>`,
@@ -385,6 +584,155 @@ describe('audit', function () {
     expect(Object.keys(result.modules).length).toBe(4);
   });
 
+  test('audits template tag components', async function () {
+    merge(app.files, {
+      'app.js': `import Thing from './thing.gjs';`,
+      'thing.gjs': `
+        import { goodbye } from './lib';
+        <template>{{goodbye}}</template>
+      `,
+      'lib.js': `
+        export function hello() {}
+      `,
+    });
+    let result = await audit();
+    expect(withoutCodeFrames(result.findings)).toEqual([
+      {
+        filename: './thing.gjs',
+        message: 'importing a non-existent named export',
+        detail: `"./lib" has no export named "goodbye".`,
+      },
+    ]);
+    expect(Object.keys(result.modules)).toContain('./thing.gjs');
+  });
+
+  test('resolves the same requests as the vite plugins', async function () {
+    merge(app.files, {
+      'app.js': `
+        import Thing from './thing';
+        import TemplateOnly from './template-only.js';
+      `,
+      'thing.gjs': `<template>Thing</template>`,
+      'template-only.hbs': `Template only`,
+    });
+
+    let result = await audit({ pipeline: 'vite' });
+    expect(result.findings).toEqual([]);
+    expect(Object.keys(result.modules)).toEqual(expect.arrayContaining(['./thing.gjs', './template-only.js']));
+
+    result = await audit({ pipeline: 'webpack' });
+    expect(withoutCodeFrames(result.findings)).toEqual([
+      { filename: './app.js', message: 'unable to resolve dependency', detail: './thing' },
+      { filename: './app.js', message: 'unable to resolve dependency', detail: './template-only.js' },
+    ]);
+  });
+
+  test('reports unused modules and exports', async function () {
+    merge(app.files, {
+      'app.js': `
+        import { used } from './lib';
+        import Hello from './hello.hbs';
+        import('./lazy');
+      `,
+      'lib.js': `
+        export function used() {}
+        export function unused() {}
+      `,
+      'lazy.js': `
+        export function loadedDynamically() {}
+      `,
+      'orphan.js': `export default 1;`,
+      components: {
+        'never-rendered.js': `export default class {}`,
+      },
+    });
+    let result = await audit({ unused: true });
+    // earlier tests in this file leave their own files behind in the app
+    let ours = ['./components/never-rendered.js', './orphan.js', './lib.js', './lazy.js', './app.js', './hello.hbs'];
+    expect(withoutCodeFrames(result.findings.filter(f => ours.includes(f.filename)))).toEqual([
+      {
+        filename: './components/never-rendered.js',
+        message: 'unused component',
+        detail: 'no entrypoint reaches this module',
+      },
+      {
+        filename: './orphan.js',
+        message: 'unused module',
+        detail: 'no entrypoint reaches this module',
+      },
+      {
+        filename: './lib.js',
+        message: 'unused export',
+        detail: 'nothing imports "unused" from this module',
+      },
+    ]);
+
+    result = await audit();
+    expect(result.findings).toEqual([]);
+  });
+
+  test('running again sees a component added since the last run', async function () {
+    merge(app.files, {
+      'hello.hbs': `<NoSuchThing />`,
+    });
+    await app.write();
+    let audit = new Audit(app.baseDir);
+    let result = await audit.run();
+    expect(result.findings.map(f => f.detail)).toEqual(['#embroider_compat/components/no-such-thing']);
+
+    merge(app.files, {
+      components: {
+        'no-such-thing.js': `export default class {}`,
+      },
+    });
+    await app.write();
+    result = await audit.run();
+    expect(result.findings).toEqual([]);
+  });
+
+  test('running again only visits the modules that changed and their importers', async function () {
+    merge(app.files, {
+      'app.js': `
+        import { goodbye } from './lib';
+        import './has-parse-error';
+        import './unrelated';
+      `,
+      'lib.js': `
+        import './dropped';
+        export function hello() {}
+      `,
+      'dropped.js': `export default 1;`,
+      'unrelated.js': `export {};`,
+      'has-parse-error.js': `export default function() {`,
+    });
+    await app.write();
+    let audit = new Audit(app.baseDir);
+    let result = await audit.run();
+    expect(result.findings.map(f => ({ filename: f.filename, message: f.message }))).toEqual([
+      { filename: './has-parse-error.js', message: 'failed to parse' },
+      { filename: './app.js', message: 'importing a non-existent named export' },
+    ]);
+
+    merge(app.files, {
+      'lib.js': `
+        export function hello() {}
+        export function goodbye() {}
+      `,
+    });
+    await app.write();
+    let visitJS = jest.spyOn(audit as any, 'visitJS');
+    result = await audit.run();
+    expect(result.findings.map(f => ({ filename: f.filename, message: f.message }))).toEqual([
+      { filename: './has-parse-error.js', message: 'failed to parse' },
+    ]);
+    expect(visitJS.mock.calls.map(([filename]) => filename)).toEqual([
+      `${app.baseDir}/lib.js`,
+      `${app.baseDir}/app.js`,
+    ]);
+    expect(Object.keys(result.modules)).not.toContain('./dropped.js');
+    expect(result.modules['./lib.js'].consumedFrom).toEqual(['./app.js']);
+  });
+
   test('failure to parse HBS is reported and does not cause cascading errors', async function () {
     merge(app.files, {
       'hello.hbs': `{{broken`,
@@ -401,6 +749,7 @@ function withoutCodeFrames(findings: Finding[]): Finding[] {
   return findings.map(f => {
     let result = Object.assign({}, f);
     delete result.codeFrame;
+    delete result.loc;
     return result;
   });
 }
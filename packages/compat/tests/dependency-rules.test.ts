@@ -0,0 +1,191 @@
+import { Project } from 'scenario-tester';
+import { PackageCache } from '@embroider/core';
+import type { ActivePackageRules, PackageRules } from '../src/dependency-rules';
+import { activePackageRules, packageRulesFromDependencies } from '../src/dependency-rules';
+
+describe('dependency-rules', function () {
+  describe('activePackageRules', function () {
+    let packages = [
+      { name: 'my-addon', version: '1.2.0', root: '/apps/one/node_modules/my-addon' },
+      { name: 'my-addon', version: '2.0.0', root: '/apps/one/node_modules/other/node_modules/my-addon' },
+      { name: 'unrelated', version: '1.0.0', root: '/apps/one/node_modules/unrelated' },
+    ];
+
+    test('applies a rule to every package it matches', function () {
+      let rules: PackageRules[] = [{ package: 'my-addon', components: { '<Hello />': { safeToIgnore: true } } }];
+      expect(activePackageRules(rules, packages)).toEqual([
+        {
+          package: 'my-addon',
+          components: { '<Hello />': { safeToIgnore: true } },
+          roots: [packages[0].root, packages[1].root],
+        },
+      ]);
+    });
+
+    test('the first rule that matches a package wins', function () {
+      let rules: PackageRules[] = [
+        { package: 'my-addon', components: { '<Hello />': { safeToIgnore: true } } },
+        { package: 'my-addon', components: { '<Goodbye />': { safeToIgnore: true } } },
+      ];
+      expect(activePackageRules(rules, packages)).toEqual([
+        {
+          package: 'my-addon',
+          components: { '<Hello />': { safeToIgnore: true } },
+          roots: [packages[0].root, packages[1].root],
+        },
+      ]);
+    });
+
+    test('only considers the rules whose semver range matches', function () {
+      let rules: PackageRules[] = [
+        { package: 'my-addon', semverRange: '^2.0.0', components: { '<Hello />': { safeToIgnore: true } } },
+        { package: 'my-addon', components: { '<Goodbye />': { safeToIgnore: true } } },
+      ];
+      expect(activePackageRules(rules, packages)).toEqual([
+        {
+          package: 'my-addon',
+          components: { '<Goodbye />': { safeToIgnore: true } },
+          roots: [packages[0].root],
+        },
+        {
+          package: 'my-addon',
+          semverRange: '^2.0.0',
+          components: { '<Hello />': { safeToIgnore: true } },
+          roots: [packages[1].root],
+        },
+      ]);
+    });
+
+    test('an app rule wins over a built-in rule', function () {
+      let rules: PackageRules[] = [{ package: 'my-addon', components: { '<Hello />': { safeToIgnore: true } } }];
+      let builtIn: PackageRules[] = [{ package: 'my-addon', components: { '<Goodbye />': { safeToIgnore: true } } }];
+      expect(activePackageRules(rules, packages, { builtIn })).toEqual([
+        {
+          package: 'my-addon',
+          components: { '<Hello />': { safeToIgnore: true } },
+          roots: [packages[0].root, packages[1].root],
+        },
+      ]);
+    });
+
+    describe('rules that an addon ships', function () {
+      let shipped: ActivePackageRules[] = [
+        {
+          package: 'my-addon',
+          components: {
+            '<Hello />': { safeToIgnore: true },
+            '<Goodbye />': { safeToIgnore: true },
+          },
+          roots: [packages[0].root],
+        },
+      ];
+
+      test('only apply to the copy of the addon that ships them', function () {
+        expect(activePackageRules([], packages, { shipped })).toEqual([shipped[0]]);
+      });
+
+      test('merge under the app rule', function () {
+        let rules: PackageRules[] = [
+          { package: 'my-addon', components: { '<Hello />': { acceptsComponentArguments: ['title'] } } },
+        ];
+        expect(activePackageRules(rules, packages, { shipped })).toEqual([
+          {
+            package: 'my-addon',
+            components: {
+              '<Hello />': { acceptsComponentArguments: ['title'] },
+              '<Goodbye />': { safeToIgnore: true },
+            },
+            roots: [packages[0].root],
+          },
+          {
+            package: 'my-addon',
+            components: { '<Hello />': { acceptsComponentArguments: ['title'] } },
+            roots: [packages[1].root],
+          },
+        ]);
+      });
+
+      test('merge over the built-in rule', function () {
+        let builtIn: PackageRules[] = [
+          {
+            package: 'my-addon',
+            components: {
+              '<Goodbye />': { acceptsComponentArguments: ['title'] },
+              '<Panel />': { safeToIgnore: true },
+            },
+          },
+        ];
+        expect(activePackageRules([], packages, { shipped, builtIn })).toEqual([
+          {
+            package: 'my-addon',
+            components: {
+              '<Hello />': { safeToIgnore: true },
+              '<Goodbye />': { safeToIgnore: true },
+              '<Panel />': { safeToIgnore: true },
+            },
+            roots: [packages[0].root],
+          },
+          {
+            package: 'my-addon',
+            components: {
+              '<Goodbye />': { acceptsComponentArguments: ['title'] },
+              '<Panel />': { safeToIgnore: true },
+            },
+            roots: [packages[1].root],
+          },
+        ]);
+      });
+    });
+  });
+
+  describe('packageRulesFromDependencies', function () {
+    async function addonShipping(rules: unknown) {
+      let project = new Project('my-addon');
+      project.pkg.keywords = ['ember-addon'];
+      project.pkg['ember-addon'] = { version: 2, type: 'addon', main: 'addon-main.js', 'embroider-rules': rules };
+      await project.write();
+      return new PackageCache(project.baseDir).get(project.baseDir);
+    }
+
+    test('defaults the package to the addon that ships the rules', async function () {
+      let pkg = await addonShipping([{ components: { '<Hello />': { safeToIgnore: true } } }]);
+      expect(packageRulesFromDependencies([pkg])).toEqual([
+        { package: 'my-addon', components: { '<Hello />': { safeToIgnore: true } }, roots: [pkg.root] },
+      ]);
+    });
+
+    test('rejects rules for another package', async function () {
+      let pkg = await addonShipping([{ package: 'other-addon', components: {} }]);
+      expect(() => packageRulesFromDependencies([pkg])).toThrow(
+        /Entry 0 names "other-addon" as its package, but an addon can only ship rules for itself/
+      );
+    });
+
+    test('rejects rules that are not an array', async function () {
+      let pkg = await addonShipping({ components: {} });
+      expect(() => packageRulesFromDependencies([pkg])).toThrow(/It must be an array of package rules/);
+    });
+
+    test('rejects an entry that is not an object', async function () {
+      let pkg = await addonShipping(['<Hello />']);
+      expect(() => packageRulesFromDependencies([pkg])).toThrow(/Entry 0 must be an object/);
+    });
+
+    test('rejects a section that is not an object', async function () {
+      let pkg = await addonShipping([{}, { components: ['<Hello />'] }]);
+      expect(() => packageRulesFromDependencies([pkg])).toThrow(/Entry 1 has a "components" that must be an object/);
+    });
+
+    test('rejects an entry within a section that is not an object', async function () {
+      let pkg = await addonShipping([{ addonTemplates: { 'templates/index.hbs': true } }]);
+      expect(() => packageRulesFromDependencies([pkg])).toThrow(
+        /Entry 0 has a "addonTemplates" entry for "templates\/index.hbs" that must be an object/
+      );
+    });
+
+    test('rejects unknown keys', async function () {
+      let pkg = await addonShipping([{ component: {} }]);
+      expect(() => packageRulesFromDependencies([pkg])).toThrow(/Entry 0 has unknown keys: component/);
+    });
+  });
+});
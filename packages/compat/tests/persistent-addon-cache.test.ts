@@ -0,0 +1,54 @@
+import { prune } from '../src/persistent-addon-cache';
+import { ensureDirSync, readdirSync, removeSync, utimesSync } from 'fs-extra';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+
+describe('persistent addon cache', () => {
+  let dir: string;
+
+  function entry(name: string, ageInSeconds: number): string {
+    let key = createHash('sha1').update(`${name}${ageInSeconds}`).digest('hex');
+    let entryDir = join(dir, `${name.replace(/\//g, '__')}-${key}`);
+    ensureDirSync(entryDir);
+    let time = new Date(Date.now() - ageInSeconds * 1000);
+    utimesSync(entryDir, time, time);
+    return entryDir;
+  }
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `addon-cache-test-${process.pid}`);
+    removeSync(dir);
+    ensureDirSync(dir);
+  });
+
+  afterEach(() => {
+    removeSync(dir);
+  });
+
+  test('keeps the most recently used entries of an addon', () => {
+    let entries = [1, 2, 3, 4, 5].map(age => entry('my-addon', age));
+    prune(dir, 'my-addon-', new Set());
+    expect(readdirSync(dir).sort()).toEqual(
+      entries
+        .slice(0, 3)
+        .map(e => e.slice(dir.length + 1))
+        .sort()
+    );
+  });
+
+  test('keeps entries that are in use', () => {
+    let entries = [1, 2, 3, 4, 5].map(age => entry('my-addon', age));
+    prune(dir, 'my-addon-', new Set([entries[4]]));
+    expect(readdirSync(dir).sort()).toEqual(
+      [...entries.slice(0, 3), entries[4]].map(e => e.slice(dir.length + 1)).sort()
+    );
+  });
+
+  test('leaves other addons alone', () => {
+    let others = [entry('my-addon-extra', 10), entry('@scope/my-addon', 11), entry('my-addon-two', 12)];
+    let mine = [1, 2, 3, 4].map(age => entry('my-addon', age));
+    prune(dir, 'my-addon-', new Set());
+    expect(readdirSync(dir).sort()).toEqual([...others, ...mine.slice(0, 3)].map(e => e.slice(dir.length + 1)).sort());
+  });
+});
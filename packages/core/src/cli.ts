@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+
+import { resolve } from 'path';
+import yargs from 'yargs/yargs';
+import { ResolverLoader } from './resolver-loader';
+import type { ResolverExplanation, TracedRequest } from './module-resolver';
+
+yargs(process.argv.slice(2))
+  .scriptName('embroider-core')
+  .command(
+    'resolve <specifier>',
+    'Resolve a module request exactly the way the Embroider resolver in your last build would',
+    yargs => {
+      return yargs
+        .positional('specifier', {
+          type: 'string',
+          description: 'The module specifier being imported',
+          demandOption: true,
+        })
+        .option('from', {
+          type: 'string',
+          description: 'Path to the file that contains the import',
+          demandOption: true,
+        })
+        .option('explain', {
+          type: 'boolean',
+          description: 'Print every decision the resolver made along the way',
+          default: false,
+        })
+        .option('format', {
+          choices: ['tree', 'json'] as const,
+          description: 'How to print the results',
+          default: 'tree' as 'tree' | 'json',
+        })
+        .option('app', {
+          type: 'string',
+          description: 'Path to your app',
+          default: process.cwd(),
+        });
+    },
+    function (opts) {
+      let resolver = new ResolverLoader(resolve(opts.app)).resolver;
+      let explanation = resolver.explain(opts.specifier, resolve(opts.from));
+      if (opts.format === 'json') {
+        let output = opts.explain ? explanation : explanation.result;
+        process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+      } else {
+        process.stdout.write(treeFormat(explanation, opts.explain));
+      }
+      process.exit(explanation.result.type === 'not_found' ? 1 : 0);
+    }
+  )
+  .demandCommand()
+  .strictCommands()
+  .help().argv;
+
+function treeFormat(explanation: ResolverExplanation, withEvents: boolean): string {
+  let lines = [describe(explanation)];
+  if (withEvents) {
+    for (let event of explanation.events) {
+      switch (event.type) {
+        case 'transition':
+          lines.push(`├─ ${event.phase} › ${event.step}: ${event.reason}`);
+          if (requestChanged(event.before, event.after)) {
+            lines.push(`│    ${describe(event.before)}`);
+            lines.push(`│    → ${describe(event.after)}`);
+          }
+          break;
+        case 'defaultResolve':
+          lines.push(`├─ defaultResolve: ${describe(event.request)}`);
+          lines.push(`│    → ${event.result.type === 'found' ? event.result.filename : 'not found'}`);
+          break;
+      }
+    }
+  }
+  let { result } = explanation;
+  switch (result.type) {
+    case 'real':
+      lines.push(`└─ resolved to ${result.filename}`);
+      break;
+    case 'virtual':
+      lines.push(`└─ resolved to virtual module ${result.filename}`);
+      break;
+    case 'not_found':
+      lines.push(`└─ not found: ${result.message.split('\n')[0]}`);
+      break;
+  }
+  return lines.join('\n') + '\n';
+}
+
+function describe(request: Pick<TracedRequest, 'specifier' | 'fromFile'> & { isVirtual?: boolean }): string {
+  if (request.isVirtual) {
+    return `virtual ${request.specifier}`;
+  }
+  return `${request.specifier} from ${request.fromFile}`;
+}
+
+function requestChanged(before: TracedRequest, after: TracedRequest): boolean {
+  return (
+    before.specifier !== after.specifier || before.fromFile !== after.fromFile || before.isVirtual !== after.isVirtual
+  );
+}
@@ -21,6 +21,9 @@ export {
   Resolution,
   ResolverFunction,
   SyncResolverFunction,
+  ResolverExplanation,
+  TraceEvent,
+  TracedRequest,
 } from './module-resolver';
 export { ResolverLoader } from './resolver-loader';
 export { virtualContent } from './virtual-content';
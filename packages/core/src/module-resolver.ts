@@ -26,6 +26,8 @@ import { Memoize } from 'typescript-memoize';
 import { describeExports } from './describe-exports';
 import { readFileSync } from 'fs';
 import type UserOptions from './options';
+import type { CachedRequest, CachedResolution } from './resolution-cache';
+import { ResolutionCache } from './resolution-cache';
 
 const debug = makeDebug('embroider:resolver');
 function logTransition<R extends ModuleRequest>(reason: string, before: R, after: R = before): R {
@@ -49,9 +51,102 @@ function logTransition<R extends ModuleRequest>(reason: string, before: R, after
   } else {
     debug(`unchanged: %s in %s because %s`, before.specifier, before.fromFile, reason);
   }
+  if (activeTrace) {
+    activeTrace.events.push({
+      type: 'transition',
+      phase: activeTrace.phase,
+      step: activeTrace.step,
+      reason,
+      before: describeRequest(before),
+      after: describeRequest(after),
+    });
+  }
   return after;
 }
 
+// While Resolver.explain is running, this collects every decision the resolver
+// makes. Our internals are synchronous, so a single slot is enough.
+let activeTrace: ActiveTrace | undefined;
+
+interface ActiveTrace {
+  phase: 'beforeResolve' | 'fallbackResolve';
+  step: string;
+  events: TraceEvent[];
+}
+
+export interface TracedRequest {
+  specifier: string;
+  fromFile: string;
+  isVirtual: boolean;
+}
+
+export type TraceEvent =
+  | {
+      type: 'transition';
+      phase: 'beforeResolve' | 'fallbackResolve';
+      // which part of the resolver made the decision, like "handleRenaming"
+      step: string;
+      reason: string;
+      before: TracedRequest;
+      after: TracedRequest;
+    }
+  | {
+      type: 'defaultResolve';
+      request: TracedRequest;
+      result: { type: 'found'; filename: string } | { type: 'not_found' };
+    };
+
+export interface ResolverExplanation {
+  specifier: string;
+  fromFile: string;
+  result:
+    | { type: 'real'; filename: string }
+    | { type: 'virtual'; filename: string }
+    | { type: 'not_found'; message: string };
+  events: TraceEvent[];
+}
+
+function describeRequest(request: ModuleRequest): TracedRequest {
+  return { specifier: request.specifier, fromFile: request.fromFile, isVirtual: request.isVirtual };
+}
+
+// remembers the filename that each virtual request was created from, because
+// the build-system-specific request objects don't give it back to us in a
+// portable form.
+const virtualFilenames = new WeakMap<ModuleRequest, string>();
+
+function virtualize<R extends ModuleRequest>(request: R, filename: string): R {
+  let virtual = request.virtualize(filename);
+  virtualFilenames.set(virtual, filename);
+  return virtual;
+}
+
+function toCachedRequest(request: ModuleRequest): CachedRequest | undefined {
+  if (request.isVirtual) {
+    let filename = virtualFilenames.get(request);
+    if (filename) {
+      return { specifier: filename, fromFile: request.fromFile, isVirtual: true, meta: request.meta };
+    }
+    return undefined;
+  }
+  return { specifier: request.specifier, fromFile: request.fromFile, isVirtual: false, meta: request.meta };
+}
+
+function fromCachedRequest<R extends ModuleRequest>(request: R, cached: CachedRequest): R {
+  let next = request.rehome(cached.fromFile).withMeta(cached.meta);
+  if (cached.isVirtual) {
+    return virtualize(next, cached.specifier);
+  }
+  return next.alias(cached.specifier);
+}
+
+function enterPhase(phase: ActiveTrace['phase']) {
+  if (activeTrace) {
+    activeTrace.phase = phase;
+    activeTrace.step = phase;
+  }
+}
+
 export interface Options {
   renamePackages: {
     [fromName: string]: string;
@@ -68,6 +163,7 @@ export interface Options {
   modulePrefix: string;
   podModulePrefix?: string;
   amdCompatibility: Required<UserOptions['amdCompatibility']>;
+  persistentResolutionCache?: boolean;
 }
 
 interface EngineConfig {
@@ -163,7 +259,17 @@ export type SyncResolverFunction<R extends ModuleRequest = ModuleRequest, Res ex
 export class Resolver {
   constructor(readonly options: Options) {}
 
+  private resolutionCache = this.options.persistentResolutionCache ? ResolutionCache.shared(this.options) : undefined;
+
+  // set whenever a decision depends on the presence or contents of particular
+  // files, as opposed to only the package graph. Those decisions can change
+  // without any change to the persistent cache's key, so they don't get
+  // cached.
+  private consultedFilesystem = false;
+
   beforeResolve<R extends ModuleRequest>(request: R): R {
+    enterPhase('beforeResolve');
+
     if (request.specifier === '@embroider/macros') {
       // the macros package is always handled directly within babel (not
       // necessarily as a real resolvable package), so we should not mess with it.
@@ -176,21 +282,37 @@ export class Resolver {
       return this.external('early require', request, request.specifier);
     }
 
-    request = this.handleFastbootSwitch(request);
-    request = this.handleGlobalsCompat(request);
-    request = this.handleImplicitModules(request);
-    request = this.handleRenaming(request);
+    request = this.step('handleFastbootSwitch', request, this.handleFastbootSwitch);
+    request = this.step('handleGlobalsCompat', request, this.handleGlobalsCompat);
+    request = this.step('handleImplicitModules', request, this.handleImplicitModules);
+    request = this.step('handleRenaming', request, this.handleRenaming);
     // we expect the specifier to be app relative at this point - must be after handleRenaming
-    request = this.generateFastbootSwitch(request);
-    request = this.preHandleExternal(request);
+    request = this.step('generateFastbootSwitch', request, this.generateFastbootSwitch);
+    request = this.step('preHandleExternal', request, this.preHandleExternal);
 
     // this should probably stay the last step in beforeResolve, because it can
     // rehome requests to their un-rewritten locations, and for the most part we
     // want to be dealing with the rewritten packages.
-    request = this.handleRewrittenPackages(request);
+    request = this.step('handleRewrittenPackages', request, this.handleRewrittenPackages);
     return request;
   }
 
+  // The step name only matters when we're tracing, where it labels the
+  // transitions made by the step.
+  private step<R extends ModuleRequest>(name: string, request: R, fn: (request: R) => R): R {
+    if (!activeTrace) {
+      return fn.call(this, request);
+    }
+    let trace = activeTrace;
+    let prevStep = trace.step;
+    trace.step = name;
+    try {
+      return fn.call(this, request);
+    } finally {
+      trace.step = prevStep;
+    }
+  }
+
   // This encapsulates the whole resolving process. Given a `defaultResolve`
   // that calls your build system's normal module resolver, this does both pre-
   // and post-resolution adjustments as needed to implement our compatibility
@@ -232,8 +354,38 @@ export class Resolver {
     request: Req,
     defaultResolve: (req: Req) => Yielded
   ): Generator<Yielded, Res, Res> {
-    request = this.beforeResolve(request);
+    let cache = this.resolutionCache;
+    if (!cache || activeTrace) {
+      return yield* this.uncachedResolve(request, defaultResolve, undefined);
+    }
+
+    let cached = cache.get(request);
+    if (cached) {
+      let replayed = yield* this.replayCached<Req, Res, Yielded>(request, cached, defaultResolve);
+      if ('resolution' in replayed) {
+        return replayed.resolution;
+      }
+      request = replayed.request;
+    }
+
+    let recording: Recording = { failed: [], found: undefined, cacheable: true };
+    let resolution = yield* this.uncachedResolve(request, defaultResolve, recording);
+    if (resolution.type === 'found' && recording.cacheable && recording.found) {
+      cache.set(request, { failed: recording.failed, found: recording.found });
+    } else if (cached) {
+      cache.delete(request);
+    }
+    return resolution;
+  }
+
+  private *uncachedResolve<Req extends ModuleRequest, Res extends Resolution, Yielded>(
+    request: Req,
+    defaultResolve: (req: Req) => Yielded,
+    recording: Recording | undefined
+  ): Generator<Yielded, Res, Res> {
+    request = this.watchFilesystem(recording, () => this.beforeResolve(request));
     let resolution = yield defaultResolve(request);
+    record(recording, request, resolution);
 
     switch (resolution.type) {
       case 'found':
@@ -243,7 +395,7 @@ export class Resolver {
       default:
         throw assertNever(resolution);
     }
-    let nextRequest = this.fallbackResolve(request);
+    let nextRequest = this.watchFilesystem(recording, () => this.fallbackResolve(request));
     if (nextRequest === request) {
       // no additional fallback is available.
       return resolution;
@@ -259,9 +411,52 @@ export class Resolver {
       // virtual requests are terminal, there is no more beforeResolve or
       // fallbackResolve around them. The defaultResolve is expected to know how
       // to implement them.
-      return yield defaultResolve(nextRequest);
+      let virtualResolution: Res = yield defaultResolve(nextRequest);
+      record(recording, nextRequest, virtualResolution);
+      return virtualResolution;
+    }
+    return yield* this.uncachedResolve(nextRequest, defaultResolve, recording);
+  }
+
+  // Tries to reuse a resolution from the persistent cache. This still goes
+  // through the defaultResolve, both for the final request (because each build
+  // system needs its own representation of the result) and for the requests
+  // that failed on the way there (because a newly-created file could make one
+  // of them succeed).
+  private *replayCached<Req extends ModuleRequest, Res extends Resolution, Yielded>(
+    request: Req,
+    cached: CachedResolution,
+    defaultResolve: (req: Req) => Yielded
+  ): Generator<Yielded, { resolution: Res } | { request: Req }, Res> {
+    let current = request;
+    for (let failed of cached.failed) {
+      current = fromCachedRequest(current, failed);
+      let resolution: Res = yield defaultResolve(current);
+      if (resolution.type === 'found') {
+        return { request: fromCachedRequest(current, toCachedRequest(request)!) };
+      }
+    }
+    current = fromCachedRequest(current, cached.found);
+    let resolution: Res = yield defaultResolve(current);
+    if (resolution.type === 'found') {
+      return { resolution };
     }
-    return yield* this.internalResolve(nextRequest, defaultResolve);
+    // some build systems' requests share mutable state, so rather than
+    // returning the original request we rebuild an equivalent one from where
+    // we ended up.
+    return { request: fromCachedRequest(current, toCachedRequest(request)!) };
+  }
+
+  private watchFilesystem<T>(recording: Recording | undefined, fn: () => T): T {
+    if (!recording) {
+      return fn();
+    }
+    this.consultedFilesystem = false;
+    let result = fn();
+    if (this.consultedFilesystem) {
+      recording.cacheable = false;
+    }
+    return result;
   }
 
   // Use standard NodeJS resolving, with our required compatibility rules on
@@ -274,29 +469,62 @@ export class Resolver {
     | { type: 'virtual'; filename: string; content: string }
     | { type: 'real'; filename: string }
     | { type: 'not_found'; err: Error } {
-    let resolution = this.resolveSync(new NodeModuleRequest(specifier, fromFile, false, undefined), request => {
-      if (request.isVirtual) {
-        return {
-          type: 'found',
-          result: {
-            type: 'virtual' as 'virtual',
-            content: virtualContent(request.specifier, this),
-            filename: request.specifier,
-          },
-        };
-      }
-      try {
-        let filename = resolveModule.sync(request.specifier, {
-          basedir: dirname(request.fromFile),
-          extensions: this.options.resolvableExtensions,
-        });
-        return { type: 'found', result: { type: 'real' as 'real', filename } };
-      } catch (err) {
-        if (err.code !== 'MODULE_NOT_FOUND') {
-          throw err;
-        }
-        return { type: 'not_found', err };
+    // we use nodeResolve internally to try out candidates while resolving
+    // something else, and those lookups are not part of the outer trace.
+    let outerTrace = activeTrace;
+    activeTrace = undefined;
+    try {
+      return this.nodeResolveRequest(new NodeModuleRequest(specifier, fromFile, false, undefined));
+    } finally {
+      activeTrace = outerTrace;
+      this.consultedFilesystem = true;
+    }
+  }
+
+  // Does the same thing as nodeResolve, while recording every step the
+  // resolver took along the way. This is how you answer "why did this import
+  // land there?".
+  explain(specifier: string, fromFile: string): ResolverExplanation {
+    let outerTrace = activeTrace;
+    let trace: ActiveTrace = { phase: 'beforeResolve', step: 'beforeResolve', events: [] };
+    activeTrace = trace;
+    try {
+      let resolution = this.nodeResolveRequest(new NodeModuleRequest(specifier, fromFile, false, undefined));
+      let result: ResolverExplanation['result'];
+      switch (resolution.type) {
+        case 'not_found':
+          result = { type: 'not_found', message: resolution.err.message };
+          break;
+        case 'virtual':
+          result = { type: 'virtual', filename: resolution.filename };
+          break;
+        case 'real':
+          result = resolution;
+          break;
+        default:
+          throw assertNever(resolution);
       }
+      return { specifier, fromFile, result, events: trace.events };
+    } finally {
+      activeTrace = outerTrace;
+    }
+  }
+
+  private nodeResolveRequest(
+    request: NodeModuleRequest
+  ):
+    | { type: 'virtual'; filename: string; content: string }
+    | { type: 'real'; filename: string }
+    | { type: 'not_found'; err: Error } {
+    let resolution = this.resolveSync(request, request => {
+      let resolution = this.defaultNodeResolve(request);
+      activeTrace?.events.push({
+        type: 'defaultResolve',
+        request: describeRequest(request),
+        result:
+          resolution.type === 'found' ? { type: 'found', filename: resolution.result.filename } : { type: 'not_found' },
+      });
+      return resolution;
     });
     switch (resolution.type) {
       case 'not_found':
@@ -308,6 +536,31 @@ export class Resolver {
     }
   }
 
+  private defaultNodeResolve(request: NodeModuleRequest) {
+    if (request.isVirtual) {
+      return {
+        type: 'found' as 'found',
+        result: {
+          type: 'virtual' as 'virtual',
+          content: virtualContent(request.specifier, this),
+          filename: request.specifier,
+        },
+      };
+    }
+    try {
+      let filename = resolveModule.sync(request.specifier, {
+        basedir: dirname(request.fromFile),
+        extensions: this.options.resolvableExtensions,
+      });
+      return { type: 'found' as 'found', result: { type: 'real' as 'real', filename } };
+    } catch (err) {
+      if (err.code !== 'MODULE_NOT_FOUND') {
+        throw err;
+      }
+      return { type: 'not_found' as 'not_found', err: err as Error };
+    }
+  }
+
   get packageCache() {
     return RewrittenPackageCache.shared('embroider', this.options.appRoot);
   }
@@ -345,12 +598,13 @@ export class Resolver {
         let fastbootFile = engineConfig.fastbootFiles[candidate];
         if (fastbootFile) {
           if (fastbootFile.shadowedFilename) {
+            this.consultedFilesystem = true;
             let { names } = describeExports(readFileSync(resolve(pkg.root, fastbootFile.shadowedFilename), 'utf8'), {});
             let switchFile = fastbootSwitch(candidate, resolve(pkg.root, 'package.json'), names);
             if (switchFile === request.fromFile) {
               return logTransition('internal lookup from fastbootSwitch', request);
             } else {
-              return logTransition('shadowed app fastboot', request, request.virtualize(switchFile));
+              return logTransition('shadowed app fastboot', request, virtualize(request, switchFile));
             }
           } else {
             return logTransition(
@@ -439,13 +693,13 @@ export class Resolver {
       return logTransition(
         `dep's implicit modules`,
         request,
-        request.virtualize(resolve(dep.root, `-embroider-${im.type}.js`))
+        virtualize(request, resolve(dep.root, `-embroider-${im.type}.js`))
       );
     } else {
       return logTransition(
         `own implicit modules`,
         request,
-        request.virtualize(resolve(pkg.root, `-embroider-${im.type}.js`))
+        virtualize(request, resolve(pkg.root, `-embroider-${im.type}.js`))
       );
     }
   }
@@ -522,7 +776,7 @@ export class Resolver {
       return logTransition(
         `resolveComponent found legacy HBS`,
         request,
-        request.virtualize(virtualPairComponent(hbsModule, jsModule))
+        virtualize(request, virtualPairComponent(hbsModule, jsModule))
       );
     } else if (jsModule) {
       return logTransition(`resolveComponent found only JS`, request, request.alias(jsModule).rehome(target.from));
@@ -967,7 +1221,7 @@ export class Resolver {
   private external<R extends ModuleRequest>(label: string, request: R, specifier: string): R {
     if (this.options.amdCompatibility === 'cjs') {
       let filename = virtualExternalCJSModule(specifier);
-      return logTransition(label, request, request.virtualize(filename));
+      return logTransition(label, request, virtualize(request, filename));
     } else if (this.options.amdCompatibility) {
       let entry = this.options.amdCompatibility.es.find(
         entry => entry[0] === specifier || entry[0] + '/index' === specifier
@@ -993,7 +1247,7 @@ export class Resolver {
         );
       }
       let filename = virtualExternalESModule(specifier, entry[1]);
-      return logTransition(label, request, request.virtualize(filename));
+      return logTransition(label, request, virtualize(request, filename));
     } else {
       throw new Error(
         `Embroider's amdCompatibility option is disabled, but something tried to use it to access "${request.specifier}"`
@@ -1002,6 +1256,8 @@ export class Resolver {
   }
 
   fallbackResolve<R extends ModuleRequest>(request: R): R {
+    enterPhase('fallbackResolve');
+
     if (request.specifier === '@embroider/macros') {
       // the macros package is always handled directly within babel (not
       // necessarily as a real resolvable package), so we should not mess with it.
@@ -1180,7 +1436,7 @@ export class Resolver {
           );
         }
         let { names } = describeExports(readFileSync(foundAppJS.filename, 'utf8'), {});
-        return request.virtualize(fastbootSwitch(matched.matched, resolve(engine.root, 'package.json'), names));
+        return virtualize(request, fastbootSwitch(matched.matched, resolve(engine.root, 'package.json'), names));
     }
   }
 
@@ -1251,6 +1507,26 @@ export class Resolver {
   }
 }
 
+interface Recording {
+  failed: CachedRequest[];
+  found: CachedRequest | undefined;
+  cacheable: boolean;
+}
+
+function record(recording: Recording | undefined, request: ModuleRequest, resolution: Resolution) {
+  if (!recording) {
+    return;
+  }
+  let cachedRequest = toCachedRequest(request);
+  if (!cachedRequest) {
+    recording.cacheable = false;
+  } else if (resolution.type === 'found') {
+    recording.found = cachedRequest;
+  } else {
+    recording.failed.push(cachedRequest);
+  }
+}
+
 function isExplicitlyExternal(specifier: string, fromPkg: V2Package): boolean {
   return Boolean(fromPkg.isV2Addon() && fromPkg.meta['externals'] && fromPkg.meta['externals'].includes(specifier));
 }
@@ -33,6 +33,9 @@ export default interface Options {
   // will be split out of the initial app payload. If you use this, you must
   // also add @embroider/router to your app. See [@embroider/router's
   // README](https://github.com/embroider-build/embroider/blob/main/packages/router/README.md)
+  //
+  // Under Vite, also add the `routeBundles()` plugin from @embroider/vite so
+  // each split route gets its own chunk in production builds.
   splitAtRoutes?: (RegExp | string)[];
 
   // Every file within your application's `app` directory is categorized as a
@@ -122,6 +125,17 @@ export default interface Options {
     | {
         es: [string, string[]][];
       };
+
+  // When true, the module resolver that runs inside Vite, esbuild and webpack
+  // remembers its answers on disk (under node_modules/.embroider), so that a
+  // cold start doesn't need to recompute every resolution from scratch.
+  //
+  // The cache is discarded whenever your resolver configuration, your app's or
+  // addons' package.json files, your lockfile or the set of rewritten addons
+  // change.
+  //
+  // Defaults to false.
+  persistentResolutionCache?: boolean;
 }
 
 export function optionsWithDefaults(options?: Options): Required<Options> {
@@ -134,6 +148,7 @@ export function optionsWithDefaults(options?: Options): Required<Options> {
     skipBabel: [],
     pluginHints: [],
     amdCompatibility: 'cjs' as const,
+    persistentResolutionCache: false,
   };
   if (options) {
     return Object.assign(defaults, options);
@@ -0,0 +1,196 @@
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync, readJSONSync, outputJSONSync, removeSync } from 'fs-extra';
+import { dirname, join, resolve } from 'path';
+import { locateEmbroiderWorkingDir, RewrittenPackageCache } from '@embroider/shared-internals';
+import makeDebug from 'debug';
+import type { ModuleRequest, Options } from './module-resolver';
+
+const debug = makeDebug('embroider:resolution-cache');
+
+// A request as seen by the defaultResolve function, in a form that can be
+// replayed against any build system's ModuleRequest implementation.
+export interface CachedRequest {
+  // for virtual requests, this is the virtual filename
+  specifier: string;
+  fromFile: string;
+  isVirtual: boolean;
+  meta: Record<string, any> | undefined;
+}
+
+export interface CachedResolution {
+  // requests that the defaultResolve failed to find before we landed on the
+  // final one. Replaying a cache entry requires that these still fail, which
+  // is how we notice when a new file would shadow the previous answer.
+  failed: CachedRequest[];
+  found: CachedRequest;
+}
+
+const lockfiles = ['pnpm-lock.yaml', 'yarn.lock', 'package-lock.json'];
+
+// Persists the outcome of Resolver.resolve across process restarts. The cache
+// file is content-addressed: its name is a hash of the resolver options, the
+// app's and active addons' package.json files, the lockfile and the rewritten
+// package index, so any change to those starts a fresh cache.
+export class ResolutionCache {
+  #dir: string;
+  #key: string | undefined;
+  #indexGeneration: number | undefined;
+  #entries = new Map<string, CachedResolution>();
+  #dirty = false;
+  #timer: NodeJS.Timeout | undefined;
+
+  private constructor(private options: Options) {
+    this.#dir = join(locateEmbroiderWorkingDir(options.appRoot), 'resolution-cache');
+    process.once('exit', () => this.save());
+  }
+
+  get(request: ModuleRequest): CachedResolution | undefined {
+    if (!cacheable(request)) {
+      return undefined;
+    }
+    this.#ensureCurrent();
+    return this.#entries.get(entryKey(request));
+  }
+
+  set(request: ModuleRequest, resolution: CachedResolution): void {
+    if (!cacheable(request)) {
+      return;
+    }
+    this.#ensureCurrent();
+    this.#entries.set(entryKey(request), resolution);
+    this.#scheduleSave();
+  }
+
+  delete(request: ModuleRequest): void {
+    if (this.#entries.delete(entryKey(request))) {
+      this.#scheduleSave();
+    }
+  }
+
+  save(): void {
+    if (this.#timer) {
+      clearTimeout(this.#timer);
+      this.#timer = undefined;
+    }
+    if (!this.#dirty || !this.#key) {
+      return;
+    }
+    outputJSONSync(join(this.#dir, `${this.#key}.json`), Object.fromEntries(this.#entries));
+    this.#dirty = false;
+  }
+
+  #scheduleSave() {
+    this.#dirty = true;
+    if (!this.#timer) {
+      this.#timer = setTimeout(() => this.save(), 1000);
+      this.#timer.unref();
+    }
+  }
+
+  // the rewritten package index can change underneath a long-lived process
+  // (for example during a rebuild), and when it does we switch to a different
+  // cache file.
+  #ensureCurrent() {
+    let generation = RewrittenPackageCache.shared('embroider', this.options.appRoot).indexGeneration;
+    if (this.#key && this.#indexGeneration === generation) {
+      return;
+    }
+    this.save();
+    this.#indexGeneration = generation;
+    this.#key = cacheKey(this.options);
+    this.#entries = new Map();
+    let file = join(this.#dir, `${this.#key}.json`);
+    if (existsSync(file)) {
+      try {
+        this.#entries = new Map(Object.entries(readJSONSync(file)));
+        debug(`loaded %s entries from %s`, this.#entries.size, file);
+      } catch (err) {
+        debug(`ignoring unreadable cache file %s: %s`, file, err);
+      }
+    } else {
+      this.#removeStaleFiles();
+    }
+  }
+
+  #removeStaleFiles() {
+    if (!existsSync(this.#dir)) {
+      return;
+    }
+    for (let name of readdirSync(this.#dir)) {
+      if (name !== `${this.#key}.json`) {
+        removeSync(join(this.#dir, name));
+      }
+    }
+  }
+
+  static shared(options: Options): ResolutionCache {
+    let identity = JSON.stringify(options);
+    let cache = shared.get(identity);
+    if (!cache) {
+      cache = new ResolutionCache(options);
+      shared.set(identity, cache);
+    }
+    return cache;
+  }
+}
+
+const shared: Map<string, ResolutionCache> = new Map();
+
+// requests that carry meta are the intermediate steps of some other
+// resolution, not requests that a build system asked us about.
+function cacheable(request: ModuleRequest): boolean {
+  return !request.isVirtual && request.meta === undefined;
+}
+
+function entryKey(request: ModuleRequest): string {
+  return `${request.fromFile}\0${request.specifier}`;
+}
+
+function cacheKey(options: Options): string {
+  let hash = createHash('sha256');
+  hash.update(readFileSync(resolve(__dirname, '..', 'package.json')));
+  hash.update(JSON.stringify(options));
+
+  let packageRoots = new Set([options.appRoot, ...Object.values(options.activeAddons)]);
+  for (let engine of options.engines) {
+    for (let addon of engine.activeAddons) {
+      packageRoots.add(addon.root);
+    }
+  }
+  for (let root of packageRoots) {
+    hashFileIfPresent(hash, join(root, 'package.json'));
+  }
+
+  let lockfile = findLockfile(options.appRoot);
+  if (lockfile) {
+    hashFileIfPresent(hash, lockfile);
+  }
+
+  hashFileIfPresent(hash, join(locateEmbroiderWorkingDir(options.appRoot), 'rewritten-packages', 'index.json'));
+  return hash.digest('hex');
+}
+
+function hashFileIfPresent(hash: ReturnType<typeof createHash>, filename: string) {
+  hash.update(filename);
+  if (existsSync(filename)) {
+    hash.update(readFileSync(filename));
+  }
+}
+
+// in a monorepo the lockfile can live above the app
+function findLockfile(appRoot: string): string | undefined {
+  let dir = appRoot;
+  while (true) {
+    for (let name of lockfiles) {
+      let candidate = join(dir, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    let parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
@@ -1,34 +1,109 @@
 import { readJSONSync } from 'fs-extra';
 import type { Options } from './module-resolver';
 import { Resolver } from './module-resolver';
-import { locateEmbroiderWorkingDir } from '@embroider/shared-internals';
-import { join } from 'path';
-import type { FSWatcher } from 'fs';
-import { watch as fsWatch } from 'fs';
+import {
+  addonChangeManifestPath,
+  locateEmbroiderWorkingDir,
+  readAddonChangeManifest,
+  RewrittenPackageCache,
+} from '@embroider/shared-internals';
+import { join, sep } from 'path';
+import type { FSWatcher, Stats } from 'fs';
+import { watch as fsWatch, watchFile, unwatchFile } from 'fs';
+import makeDebug from 'debug';
+
+const debug = makeDebug('embroider:resolver-loader');
 
 export class ResolverLoader {
   #resolver: Resolver | undefined;
   #configFile: string;
+  #watch: boolean;
   #watcher: FSWatcher | undefined;
+  #watchedFiles = new Map<string, (current: Stats, previous: Stats) => void>();
+  #listeners: (() => void)[] = [];
 
   constructor(readonly appRoot: string, watch = false) {
     this.#configFile = join(locateEmbroiderWorkingDir(this.appRoot), 'resolver.json');
+    this.#watch = watch;
     if (watch) {
       this.#watcher = fsWatch(this.#configFile, { persistent: false }, () => {
-        this.#resolver = undefined;
+        this.#invalidate();
       });
     }
   }
 
   close() {
     this.#watcher?.close();
+    for (let [file, listener] of this.#watchedFiles) {
+      unwatchFile(file, listener);
+    }
+    this.#watchedFiles.clear();
+  }
+
+  // Called whenever the resolver gets replaced because its options (or the
+  // metadata of a linked addon) changed.
+  onChange(listener: () => void) {
+    this.#listeners.push(listener);
   }
 
   get resolver(): Resolver {
     if (!this.#resolver) {
-      let config: Options = readJSONSync(join(locateEmbroiderWorkingDir(this.appRoot), 'resolver.json'));
+      let config: Options = readJSONSync(this.#configFile);
       this.#resolver = new Resolver(config);
+      if (this.#watch) {
+        this.#watchLinkedAddons(config);
+      }
     }
     return this.#resolver;
   }
+
+  #invalidate() {
+    this.#resolver = undefined;
+    for (let listener of this.#listeners) {
+      listener();
+    }
+  }
+
+  // Linked v2 addons (as opposed to ones installed from a registry) can be
+  // rebuilt while we're running, and their rebuilds rewrite the ember-addon
+  // metadata (like app-js) in their package.json. addon-dev writes a change
+  // manifest after each rewrite, and we also watch package.json itself for
+  // addons that are built some other way.
+  #watchLinkedAddons(config: Options) {
+    for (let root of linkedAddonRoots(config)) {
+      for (let file of [addonChangeManifestPath(root), join(root, 'package.json')]) {
+        if (this.#watchedFiles.has(file)) {
+          continue;
+        }
+        let listener = (current: Stats, previous: Stats) => {
+          // watchFile also tells us when a file that doesn't exist yet still
+          // doesn't exist
+          if (current.mtimeMs === previous.mtimeMs) {
+            return;
+          }
+          debug(`metadata changed in %s: %o`, root, readAddonChangeManifest(root)?.changed);
+          RewrittenPackageCache.shared('embroider', this.appRoot).invalidate();
+          this.#invalidate();
+        };
+        // unlike watch, watchFile copes with the manifest not existing yet
+        watchFile(file, { persistent: false, interval: 250 }, listener);
+        this.#watchedFiles.set(file, listener);
+      }
+    }
+  }
+}
+
+function linkedAddonRoots(config: Options): Set<string> {
+  let roots = new Set<string>();
+  for (let root of Object.values(config.activeAddons)) {
+    roots.add(root);
+  }
+  for (let engine of config.engines) {
+    for (let addon of engine.activeAddons) {
+      roots.add(addon.root);
+    }
+  }
+  // anything under a node_modules was either installed or rewritten by us, and
+  // neither of those change while we're running
+  return new Set([...roots].filter(root => !root.split(sep).includes('node_modules')));
 }
@@ -0,0 +1,82 @@
+import { ResolverLoader } from '../src/resolver-loader';
+import { RewrittenPackageCache, writeAddonChangeManifest } from '@embroider/shared-internals';
+import type { AddonMeta } from '@embroider/shared-internals';
+import tmp from 'tmp';
+import fixturify from 'fixturify';
+import { realpathSync } from 'fs';
+import { join } from 'path';
+
+tmp.setGracefulCleanup();
+
+function addonPackageJSON(appJS: Record<string, string>) {
+  return JSON.stringify({
+    name: 'my-addon',
+    keywords: ['ember-addon'],
+    'ember-addon': { version: 2, type: 'addon', 'app-js': appJS },
+  });
+}
+
+describe('ResolverLoader', () => {
+  let appRoot: string;
+  let addonRoot: string;
+  let loader: ResolverLoader;
+
+  beforeEach(() => {
+    let { name: tmpLocation } = tmp.dirSync();
+    tmpLocation = realpathSync(tmpLocation);
+    appRoot = join(tmpLocation, 'app');
+    addonRoot = join(tmpLocation, 'my-addon');
+    fixturify.writeSync(tmpLocation, {
+      app: {
+        'package.json': JSON.stringify({ name: 'app' }),
+        node_modules: {
+          '.embroider': {
+            'resolver.json': JSON.stringify({
+              appRoot,
+              activeAddons: { 'my-addon': addonRoot },
+              engines: [],
+              renamePackages: {},
+              renameModules: {},
+              resolvableExtensions: ['.js'],
+              modulePrefix: 'app',
+              podModulePrefix: '',
+              options: {},
+              staticAppPaths: [],
+              relocatedFiles: {},
+              amdCompat: {},
+              autoRun: true,
+            }),
+          },
+        },
+      },
+      'my-addon': {
+        'package.json': addonPackageJSON({ './components/a.js': './dist/_app_/components/a.js' }),
+      },
+    });
+  });
+
+  afterEach(() => {
+    loader?.close();
+  });
+
+  test('it reloads when a linked addon rewrites its metadata', async () => {
+    loader = new ResolverLoader(appRoot, true);
+    let first = loader.resolver;
+    let packageCache = RewrittenPackageCache.shared('embroider', appRoot);
+    expect((packageCache.get(addonRoot).meta as AddonMeta)['app-js']).toEqual({
+      './components/a.js': './dist/_app_/components/a.js',
+    });
+
+    let changed = new Promise<void>(resolve => loader.onChange(resolve));
+    fixturify.writeSync(addonRoot, {
+      'package.json': addonPackageJSON({ './components/b.js': './dist/_app_/components/b.js' }),
+    });
+    writeAddonChangeManifest(addonRoot, ['ember-addon.app-js']);
+    await changed;
+
+    expect(loader.resolver).not.toBe(first);
+    expect((packageCache.get(addonRoot).meta as AddonMeta)['app-js']).toEqual({
+      './components/b.js': './dist/_app_/components/b.js',
+    });
+  });
+});
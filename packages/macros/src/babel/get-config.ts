@@ -49,12 +49,15 @@ export default function getConfig(path: NodePath<t.CallExpression>, state: State
 // when we encounter getConfig. It's implemented in terms of getConfig so we can
 // be sure we have the same semantics.
 export function insertConfig(path: NodePath<t.CallExpression>, state: State, mode: Mode, context: typeof Babel) {
+  let macro = mode === 'own' ? 'getOwnConfig' : mode === 'package' ? 'getConfig' : 'getGlobalConfig';
   if (state.opts.mode === 'compile-time') {
     let config = getConfig(path, state, mode);
     let collapsed = collapse(path, config);
+    state.recordEvaluation(path, { macro, value: collapsed.config });
     let literalResult = buildLiterals(collapsed.config, context);
     collapsed.path.replaceWith(literalResult);
   } else {
+    state.recordEvaluation(path, { macro, runtime: true });
     if (mode === 'getGlobalConfig') {
       let callee = path.get('callee');
       callee.replaceWith(state.importUtil.import(callee, state.pathToOurAddon('runtime'), 'getGlobalConfig'));
@@ -0,0 +1,38 @@
+import type { NodePath } from '@babel/traverse';
+import type { types as t } from '@babel/core';
+import type * as Babel from '@babel/core';
+import type State from './state';
+import error from './error';
+import { Evaluator, assertArray } from './evaluate-json';
+import { isResolvable } from './module-exists';
+import { dirname } from 'path';
+
+// importAsync becomes a dynamic import() when its module exists at build time,
+// and a rejected promise when it doesn't. That way code can lazily load an
+// optional dependency without the bundler failing on a module that isn't
+// installed, even when the branch that loads it survives the build (as it does
+// with macroCondition in run-time mode).
+export default function importAsync(path: NodePath<t.CallExpression>, state: State, context: typeof Babel) {
+  let t = context.types;
+  if (path.node.arguments.length !== 1) {
+    throw error(path, `importAsync takes exactly one argument, you passed ${path.node.arguments.length}`);
+  }
+  let [specifierPath] = assertArray(path.get('arguments'));
+  let specifier = new Evaluator({ state }).evaluate(specifierPath);
+  if (!specifier.confident || typeof specifier.value !== 'string') {
+    throw error(specifierPath, `the argument to importAsync must be a statically known string`);
+  }
+  let exists = isResolvable(specifier.value, dirname(state.sourceFile));
+  state.recordEvaluation(path, { macro: 'importAsync', value: exists });
+  if (exists) {
+    path.replaceWith(t.callExpression(t.import(), [t.stringLiteral(specifier.value)]));
+  } else {
+    path.replaceWith(
+      t.callExpression(t.memberExpression(t.identifier('Promise'), t.identifier('reject')), [
+        t.newExpression(t.identifier('Error'), [
+          t.stringLiteral(`importAsync could not find "${specifier.value}" at build time`),
+        ]),
+      ])
+    );
+  }
+}
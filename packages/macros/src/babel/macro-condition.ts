@@ -37,10 +37,16 @@ export default function macroCondition(conditionalPath: MacroConditionPath, stat
   let alternate = conditionalPath.get('alternate');
 
   if (state.opts.mode === 'run-time' && predicate.hasRuntimeImplementation !== false) {
+    state.recordEvaluation(conditionalPath.get('test'), { macro: 'macroCondition', runtime: true });
     let callee = conditionalPath.get('test').get('callee');
     callee.replaceWith(state.importUtil.import(callee, state.pathToOurAddon('runtime'), 'macroCondition'));
   } else {
     let [kept, removed] = predicate.value ? [consequent.node, alternate.node] : [alternate.node, consequent.node];
+    state.recordEvaluation(conditionalPath.get('test'), {
+      macro: 'macroCondition',
+      value: predicate.value,
+      removedSize: removed && removed.start != null && removed.end != null ? removed.end - removed.start : 0,
+    });
     if (kept) {
       conditionalPath.replaceWith(kept);
     } else {
@@ -9,8 +9,10 @@ import { isEachPath, insertEach } from './each';
 
 import error from './error';
 import failBuild from './fail-build';
+import importAsync from './import-async';
 import { Evaluator, buildLiterals } from './evaluate-json';
 import type * as Babel from '@babel/core';
+import { appendToMacrosReport } from '../report';
 
 export default function main(context: typeof Babel): unknown {
   let t = context.types;
@@ -19,12 +21,20 @@ export default function main(context: typeof Babel): unknown {
       enter(path: NodePath<t.Program>, state: State) {
         initState(t, path, state);
       },
-      exit(_: NodePath<t.Program>, state: State) {
+      exit(_path: NodePath<t.Program>, state: State) {
         // @embroider/macros itself has no runtime behaviors and should always be removed
         state.importUtil.removeAllImports('@embroider/macros');
         for (let handler of state.jobs) {
           handler();
         }
+        if (state.opts.reportFile) {
+          appendToMacrosReport(state.opts.reportFile, {
+            kind: 'js',
+            file: state.sourceFile,
+            package: packageName(state),
+            evaluations: state.evaluations,
+          });
+        }
       },
     },
     'IfStatement|ConditionalExpression': {
@@ -100,6 +110,7 @@ export default function main(context: typeof Babel): unknown {
         // instead falls through to evaluateMacroCall.
         if (callee.referencesImport('@embroider/macros', 'isTesting') && state.opts.mode === 'run-time') {
           state.calledIdentifiers.add(callee.node);
+          state.recordEvaluation(path, { macro: 'isTesting', runtime: true });
           callee.replaceWith(state.importUtil.import(callee, state.pathToOurAddon('runtime'), 'isTesting'));
           return;
         }
@@ -107,6 +118,10 @@ export default function main(context: typeof Babel): unknown {
         let result = new Evaluator({ state }).evaluateMacroCall(path);
         if (result.confident) {
           state.calledIdentifiers.add(callee.node);
+          let macro = evaluatedMacros.find(name => callee.referencesImport('@embroider/macros', name));
+          if (macro) {
+            state.recordEvaluation(path, { macro, value: result.value });
+          }
           path.replaceWith(buildLiterals(result.value, context));
         }
       },
@@ -142,6 +157,14 @@ export default function main(context: typeof Babel): unknown {
           }
           return;
         }
+
+        // importAsync is also handled on exit, for the same reason as
+        // importSync.
+        if (callee.referencesImport('@embroider/macros', 'importAsync')) {
+          state.calledIdentifiers.add(callee.node);
+          importAsync(path, state, context);
+          return;
+        }
       },
     },
     ReferencedIdentifier(path: NodePath<t.Identifier>, state: State) {
@@ -151,8 +174,9 @@ export default function main(context: typeof Babel): unknown {
         'getConfig',
         'getOwnConfig',
         'failBuild',
-        // we cannot check importSync, as the babel transform runs on exit, so *after* this check
+        // we cannot check importSync or importAsync, as the babel transform runs on exit, so *after* this check
         // 'importSync',
+        // 'importAsync',
         'isDevelopingApp',
         'isDevelopingThisPackage',
         'isTesting',
@@ -219,3 +243,20 @@ export default function main(context: typeof Babel): unknown {
 
   return { visitor };
 }
+
+// the macros that can reach evaluateMacroCall from our CallExpression visitor
+const evaluatedMacros = [
+  'dependencySatisfies',
+  'moduleExists',
+  'isDevelopingApp',
+  'isDevelopingThisPackage',
+  'isTesting',
+];
+
+function packageName(state: State): string | undefined {
+  try {
+    return state.originalOwningPackage().name;
+  } catch (err) {
+    return undefined;
+  }
+}
@@ -14,8 +14,14 @@ export default function moduleExists(path: NodePath<t.CallExpression>, state: St
   if (moduleSpecifier.type !== 'StringLiteral') {
     throw error(assertArray(path.get('arguments'))[0], `the first argument to moduleExists must be a string literal`);
   }
+  return isResolvable(moduleSpecifier.value, dirname(state.sourceFile));
+}
+
+// importAsync and the macroModuleExists template macro use this too, so that
+// they always agree with moduleExists about which modules are there.
+export function isResolvable(moduleSpecifier: string, fromDir: string): boolean {
   try {
-    resolve.sync(moduleSpecifier.value, { basedir: dirname(state.sourceFile) });
+    resolve.sync(moduleSpecifier, { basedir: fromDir });
     return true;
   } catch (err) {
     if (err.code !== 'MODULE_NOT_FOUND') {
@@ -6,6 +6,7 @@ import type { Package } from '@embroider/shared-internals';
 import { cleanUrl, explicitRelative, RewrittenPackageCache } from '@embroider/shared-internals';
 import { ImportUtil } from 'babel-import-util';
 import type * as Babel from '@babel/core';
+import type { MacroEvaluation } from '../report';
 
 export default interface State {
   importUtil: ImportUtil;
@@ -19,6 +20,8 @@ export default interface State {
   owningPackage(): Package;
   originalOwningPackage(): Package;
   cloneDeep(node: Node): Node;
+  evaluations: MacroEvaluation[];
+  recordEvaluation(path: NodePath, evaluation: Omit<MacroEvaluation, 'line' | 'column'>): void;
 
   opts: {
     userConfigs: {
@@ -48,6 +51,9 @@ export default interface State {
     mode: 'compile-time' | 'run-time';
 
     importSyncImplementation: 'cjs' | 'eager';
+
+    // where the evaluation report goes, when it's enabled
+    reportFile?: string;
   };
 }
 
@@ -63,6 +69,8 @@ export function initState(t: typeof Babel.types, path: NodePath<Babel.types.Prog
   state.owningPackage = owningPackage;
   state.originalOwningPackage = originalOwningPackage;
   state.cloneDeep = cloneDeep;
+  state.evaluations = [];
+  state.recordEvaluation = recordEvaluation;
 }
 
 const runtimeAddonPath = resolve(join(__dirname, '..', 'addon'));
@@ -97,6 +105,14 @@ function originalOwningPackage(this: State): Package {
   return this.packageCache.original(pkg);
 }
 
+function recordEvaluation(this: State, path: NodePath, evaluation: Omit<MacroEvaluation, 'line' | 'column'>) {
+  if (!this.opts.reportFile) {
+    return;
+  }
+  let start = path.node.loc?.start;
+  this.evaluations.push({ line: start?.line ?? 0, column: start?.column ?? 0, ...evaluation });
+}
+
 function cloneDeep(this: State, node: Node): Node {
   let state = this;
   return cloneDeepWith(node, function (value: any) {
@@ -0,0 +1,74 @@
+// Generates the declarations that make getConfig() typed. The types come from
+// the actual config values, so they're exactly as precise as the JSON that
+// setConfig and setOwnConfig were given.
+export function configTypesModule(configs: { packageName: string; config: unknown }[]): string {
+  let types = new Map<string, Set<string>>();
+  for (let { packageName, config } of configs) {
+    let forPackage = types.get(packageName);
+    if (!forPackage) {
+      forPackage = new Set();
+      types.set(packageName, forPackage);
+    }
+    // when there are multiple copies of a package they can be configured
+    // differently, and getConfig could return either one.
+    forPackage.add(typeOf(config, '    '));
+  }
+
+  let entries = [...types.keys()]
+    .sort()
+    .map(packageName => `    ${propertyName(packageName)}: ${[...types.get(packageName)!].join(' | ')};\n`)
+    .join('');
+
+  return (
+    `// This file is generated by @embroider/macros from the config that your\n` +
+    `// build passes to setConfig and setOwnConfig. Don't edit it by hand.\n` +
+    `import '@embroider/macros';\n` +
+    `\n` +
+    `declare module '@embroider/macros' {\n` +
+    `  interface EmbroiderMacrosConfigRegistry {\n` +
+    entries +
+    `  }\n` +
+    `}\n`
+  );
+}
+
+function typeOf(value: unknown, indent: string): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    let elementTypes = [...new Set(value.map(v => typeOf(v, indent)))];
+    if (elementTypes.length === 0) {
+      return 'unknown[]';
+    }
+    if (elementTypes.length === 1 && !elementTypes[0].includes(' | ')) {
+      return `${elementTypes[0]}[]`;
+    }
+    return `(${elementTypes.join(' | ')})[]`;
+  }
+  switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'undefined':
+      return typeof value;
+    case 'object': {
+      let keys = Object.keys(value as object);
+      if (keys.length === 0) {
+        return 'Record<string, never>';
+      }
+      let inner = indent + '  ';
+      let members = keys.map(
+        key => `${inner}${propertyName(key)}: ${typeOf((value as Record<string, unknown>)[key], inner)};\n`
+      );
+      return `{\n${members.join('')}${indent}}`;
+    }
+    default:
+      // setConfig only accepts JSON-serializable values, so we can't get here
+      return 'unknown';
+  }
+}
+
+function propertyName(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
@@ -1,5 +1,5 @@
 import type { AppInstance } from '@embroider/shared-internals';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import type { BuildPluginParams } from './glimmer/ast-transform';
 import { MacrosConfig, isEmbroiderMacrosPlugin } from './node';
 
@@ -30,6 +30,14 @@ export = {
       }
     }
 
+    if (ownOptions.configTypes) {
+      macrosConfig.enableConfigTypes(resolve(source, ownOptions.configTypes));
+    }
+
+    if (ownOptions.evaluationReport) {
+      macrosConfig.enableEvaluationReport();
+    }
+
     if (appInstance.env !== 'production') {
       // tell the macros our app is under development
       macrosConfig.enablePackageDevelopment(getAppRoot(appInstance));
@@ -112,6 +120,7 @@ export = {
             params,
           },
           baseDir: () => baseDir,
+          cacheKey: () => lazyParams.reportCacheKey ?? '',
         });
       });
     }
@@ -3,8 +3,14 @@ import getConfig from './get-config';
 import dependencySatisfies from './dependency-satisfies';
 import { maybeAttrs } from './macro-maybe-attrs';
 import { macroIfBlock, macroIfExpression, macroIfMustache } from './macro-condition';
+import type { ConditionRecorder } from './macro-condition';
 import { failBuild } from './fail-build';
-import { RewrittenPackageCache } from '@embroider/shared-internals';
+import moduleExists from './module-exists';
+import { isDevelopingApp, isTesting, runtimeIsTesting } from './env-macros';
+import { explicitRelative, RewrittenPackageCache } from '@embroider/shared-internals';
+import { dirname, join, resolve } from 'path';
+import { appendToMacrosReport } from '../report';
+import type { MacroEvaluation } from '../report';
 
 export interface BuildPluginParams {
   // Glimmer requires this on ast transforms.
@@ -30,15 +36,44 @@ export interface FirstTransformParams {
 
   // this holds all the actual user configs that were sent into the macros
   configs: { [packageRoot: string]: object };
+
+  // this is where isTesting lives
+  globalConfig: { [key: string]: unknown };
+
+  // whether the babel side evaluates macros at build time or at runtime
+  mode: 'compile-time' | 'run-time';
+
+  // the packages that are under development, which includes the app itself
+  // unless this is a production build
+  isDevelopingPackageRoots: string[];
+
+  // where to write the evaluation report, when it's enabled
+  reportFile?: string;
+
+  // changes with every build that writes the evaluation report, so that
+  // template caches don't let templates skip it
+  reportCacheKey?: string;
 }
 
+// the part of babel-plugin-ember-template-compilation's JSUtils that we use.
+// Templates only have it when they're compiled through that babel plugin.
+interface JSUtils {
+  bindExpression(
+    expression: (context: { import(moduleSpecifier: string, exportedName: string): string }) => string,
+    target: unknown,
+    opts?: { nameHint?: string }
+  ): string;
+}
+
+const runtimeAddonPath = resolve(join(__dirname, '..', 'addon'));
+
 export function buildPlugin(params: BuildPluginParams) {
   return {
     name: params.name,
     plugin:
       params.methodName === 'makeFirstTransform'
         ? makeFirstTransform(params.firstTransformParams)
-        : makeSecondTransform(),
+        : makeSecondTransform(params.firstTransformParams),
     baseDir: () => params.baseDir,
   };
 }
@@ -46,7 +81,7 @@ export function buildPlugin(params: BuildPluginParams) {
 export function makeFirstTransform(opts: FirstTransformParams) {
   function embroiderFirstMacrosTransform(env: {
     syntax: { builders: any };
-    meta: { moduleName: string };
+    meta: { moduleName: string; jsutils?: JSUtils };
     filename: string;
   }) {
     if (!opts.packageRoot && !env.filename) {
@@ -61,12 +96,65 @@ export function makeFirstTransform(opts: FirstTransformParams) {
     // Embroider, where we can use absolute filenames.
     const moduleName = opts.packageRoot ? env.meta.moduleName : env.filename;
 
+    let report = templateReport(opts, env, moduleName, packageCache, 'first');
+
+    // the macros that always evaluate to a literal value, in either position
+    function literalMacro(node: any): { value: unknown } | undefined {
+      let value: unknown;
+      switch (node.path.original) {
+        case 'macroGetOwnConfig':
+          value = getConfig(node, opts.configs, opts.packageRoot, moduleName, true, packageCache);
+          break;
+        case 'macroGetConfig':
+          value = getConfig(node, opts.configs, opts.packageRoot, moduleName, false, packageCache);
+          break;
+        case 'macroDependencySatisfies':
+          value = dependencySatisfies(node, opts.packageRoot, moduleName, packageCache);
+          break;
+        case 'macroModuleExists':
+          value = moduleExists(node, opts.packageRoot, moduleName);
+          break;
+        case 'macroIsTesting':
+          value = isTesting(node, opts.globalConfig);
+          break;
+        case 'macroIsDevelopingApp':
+          value = isDevelopingApp(node, opts.appRoot, opts.isDevelopingPackageRoots);
+          break;
+        default:
+          return undefined;
+      }
+      report?.record(node, { macro: node.path.original, value });
+      return { value };
+    }
+
+    // in run-time mode macroIsTesting becomes a helper that asks the runtime,
+    // like isTesting() does in Javascript. Returns the name of that helper.
+    function runtimeMacro(node: any, path: unknown): string | undefined {
+      if (node.path.original !== 'macroIsTesting' || opts.mode !== 'run-time') {
+        return undefined;
+      }
+      let jsutils = env.meta.jsutils;
+      if (!jsutils) {
+        throw new Error(
+          `macroIsTesting needs babel-plugin-ember-template-compilation to compile this template, because isTesting() is only known at runtime in this build`
+        );
+      }
+      // the same module that the babel plugin points isTesting() at
+      let runtimeModule = opts.packageRoot
+        ? '@embroider/macros/runtime'
+        : explicitRelative(dirname(env.filename), join(runtimeAddonPath, 'runtime'));
+      let name = jsutils.bindExpression(runtimeIsTesting(node, runtimeModule), path, { nameHint: 'macroIsTesting' });
+      report?.record(node, { macro: 'macroIsTesting', runtime: true });
+      return name;
+    }
+
     return {
       name: '@embroider/macros/first',
 
       visitor: {
         Program: {
           enter(node: any) {
+            report?.enter();
             if (node.blockParams.length > 0) {
               scopeStack.push(node.blockParams);
             }
@@ -75,58 +163,39 @@ export function makeFirstTransform(opts: FirstTransformParams) {
             if (node.blockParams.length > 0) {
               scopeStack.pop();
             }
+            report?.exit();
           },
         },
-        SubExpression(node: any) {
+        SubExpression(node: any, path: unknown) {
           if (node.path.type !== 'PathExpression') {
             return;
           }
           if (inScope(scopeStack, node.path.parts[0])) {
             return;
           }
-          if (node.path.original === 'macroGetOwnConfig') {
-            return literal(
-              getConfig(node, opts.configs, opts.packageRoot, moduleName, true, packageCache),
-              env.syntax.builders
-            );
+          let helper = runtimeMacro(node, path);
+          if (helper) {
+            return env.syntax.builders.sexpr(env.syntax.builders.path(helper));
           }
-          if (node.path.original === 'macroGetConfig') {
-            return literal(
-              getConfig(node, opts.configs, opts.packageRoot, moduleName, false, packageCache),
-              env.syntax.builders
-            );
-          }
-          if (node.path.original === 'macroDependencySatisfies') {
-            return literal(dependencySatisfies(node, opts.packageRoot, moduleName, packageCache), env.syntax.builders);
+          let found = literalMacro(node);
+          if (found) {
+            return literal(found.value, env.syntax.builders);
           }
         },
-        MustacheStatement(node: any) {
+        MustacheStatement(node: any, path: unknown) {
           if (node.path.type !== 'PathExpression') {
             return;
           }
           if (inScope(scopeStack, node.path.parts[0])) {
             return;
           }
-          if (node.path.original === 'macroGetOwnConfig') {
-            return env.syntax.builders.mustache(
-              literal(
-                getConfig(node, opts.configs, opts.packageRoot, moduleName, true, packageCache),
-                env.syntax.builders
-              )
-            );
-          }
-          if (node.path.original === 'macroGetConfig') {
-            return env.syntax.builders.mustache(
-              literal(
-                getConfig(node, opts.configs, opts.packageRoot, moduleName, false, packageCache),
-                env.syntax.builders
-              )
-            );
-          }
-          if (node.path.original === 'macroDependencySatisfies') {
-            return env.syntax.builders.mustache(
-              literal(dependencySatisfies(node, opts.packageRoot, moduleName, packageCache), env.syntax.builders)
-            );
+          let helper = runtimeMacro(node, path);
+          if (helper) {
+            return env.syntax.builders.mustache(env.syntax.builders.path(helper));
+          }
+          let found = literalMacro(node);
+          if (found) {
+            return env.syntax.builders.mustache(literal(found.value, env.syntax.builders));
           }
         },
       },
@@ -143,15 +212,39 @@ export function makeFirstTransform(opts: FirstTransformParams) {
   return embroiderFirstMacrosTransform;
 }
 
-export function makeSecondTransform() {
-  function embroiderSecondMacrosTransform(env: { syntax: { builders: any } }) {
+// The second transform only needs opts when the evaluation report is enabled.
+export function makeSecondTransform(opts?: FirstTransformParams) {
+  function embroiderSecondMacrosTransform(env: {
+    syntax: { builders: any; print?: (node: any) => string };
+    meta: { moduleName: string };
+    filename: string;
+  }) {
     let scopeStack: string[][] = [];
+
+    let report: TemplateReport | undefined;
+    if (opts?.reportFile) {
+      let packageCache = RewrittenPackageCache.shared('embroider', opts.appRoot);
+      report = templateReport(opts, env, opts.packageRoot ? env.meta.moduleName : env.filename, packageCache, 'second');
+    }
+
+    let recordCondition: ConditionRecorder | undefined = report
+      ? (condition, value, removed) => {
+          let print = env.syntax.print;
+          report!.record(condition, {
+            macro: 'macroCondition',
+            value,
+            removedSize: print ? removed.reduce((size, node) => size + print!(node).length, 0) : 0,
+          });
+        }
+      : undefined;
+
     return {
       name: '@embroider/macros/second',
 
       visitor: {
         Program: {
           enter(node: any) {
+            report?.enter();
             if (node.blockParams.length > 0) {
               scopeStack.push(node.blockParams);
             }
@@ -160,6 +253,7 @@ export function makeSecondTransform() {
             if (node.blockParams.length > 0) {
               scopeStack.pop();
             }
+            report?.exit();
           },
         },
         BlockStatement(node: any) {
@@ -170,7 +264,7 @@ export function makeSecondTransform() {
             return;
           }
           if (node.path.original === 'if') {
-            return macroIfBlock(node);
+            return macroIfBlock(node, recordCondition);
           }
         },
         SubExpression(node: any) {
@@ -181,7 +275,7 @@ export function makeSecondTransform() {
             return;
           }
           if (node.path.original === 'if') {
-            return macroIfExpression(node, env.syntax.builders);
+            return macroIfExpression(node, env.syntax.builders, recordCondition);
           }
           if (node.path.original === 'macroFailBuild') {
             failBuild(node);
@@ -194,7 +288,7 @@ export function makeSecondTransform() {
               modifier.path.path.type === 'PathExpression' &&
               modifier.path.path.original === 'if'
             ) {
-              modifier.path = macroIfExpression(modifier.path, env.syntax.builders);
+              modifier.path = macroIfExpression(modifier.path, env.syntax.builders, recordCondition);
               if (modifier.path.type === 'UndefinedLiteral') {
                 return false;
               }
@@ -220,7 +314,7 @@ export function makeSecondTransform() {
             return;
           }
           if (node.path.original === 'if') {
-            return macroIfMustache(node, env.syntax.builders);
+            return macroIfMustache(node, env.syntax.builders, recordCondition);
           }
           if (node.path.original === 'macroFailBuild') {
             failBuild(node);
@@ -233,11 +327,68 @@ export function makeSecondTransform() {
   (embroiderSecondMacrosTransform as any).parallelBabel = {
     requireFile: __filename,
     buildUsing: 'makeSecondTransform',
-    params: undefined,
+    get params(): FirstTransformParams | undefined {
+      return opts;
+    },
   };
   return embroiderSecondMacrosTransform;
 }
 
+interface TemplateReport {
+  record(node: any, evaluation: Omit<MacroEvaluation, 'line' | 'column'>): void;
+  enter(): void;
+  exit(): void;
+}
+
+// The two transforms always run back to back on each template, so the first one
+// leaves what it found here and the second one writes out a single report entry
+// for both.
+const firstTransformEvaluations = new Map<string, MacroEvaluation[]>();
+
+// Collects the evaluations in one template and hands them on once we leave its
+// outermost Program.
+function templateReport(
+  opts: FirstTransformParams,
+  env: { filename: string },
+  moduleName: string,
+  packageCache: RewrittenPackageCache,
+  transform: 'first' | 'second'
+): TemplateReport | undefined {
+  let reportFile = opts.reportFile;
+  if (!reportFile) {
+    return undefined;
+  }
+  let evaluations: MacroEvaluation[] = [];
+  let depth = 0;
+  return {
+    record(node, evaluation) {
+      evaluations.push({ ...evaluation, line: node.loc?.start.line ?? 0, column: node.loc?.start.column ?? 0 });
+    },
+    enter() {
+      depth++;
+    },
+    exit() {
+      depth--;
+      if (depth > 0) {
+        return;
+      }
+      if (transform === 'first') {
+        firstTransformEvaluations.set(moduleName, evaluations);
+        evaluations = [];
+        return;
+      }
+      evaluations = [...(firstTransformEvaluations.get(moduleName) ?? []), ...evaluations];
+      firstTransformEvaluations.delete(moduleName);
+      let owner = env.filename ? packageCache.ownerOfFile(env.filename) : undefined;
+      if (!owner && opts.packageRoot) {
+        owner = packageCache.ownerOfFile(opts.packageRoot);
+      }
+      appendToMacrosReport(reportFile!, { kind: 'template', file: moduleName, package: owner?.name, evaluations });
+      evaluations = [];
+    },
+  };
+}
+
 function inScope(scopeStack: string[][], name: string) {
   for (let scope of scopeStack) {
     if (scope.includes(name)) {
@@ -0,0 +1,34 @@
+// These answer the same questions as the isTesting and isDevelopingApp macros
+// do in Javascript, using the same config.
+
+export function isTesting(node: any, globalConfig: { [key: string]: unknown }): boolean {
+  checkNoArguments(node);
+  let e = globalConfig['@embroider/macros'] as { isTesting?: boolean } | undefined;
+  return Boolean(e && e.isTesting);
+}
+
+// In run-time mode the Javascript isTesting() gets decided in the browser, so
+// the template calls the same runtime implementation instead of getting a
+// build-time answer. This returns the Javascript expression for a helper that
+// does that.
+export function runtimeIsTesting(
+  node: any,
+  runtimeModule: string
+): (context: { import(moduleSpecifier: string, exportedName: string): string }) => string {
+  checkNoArguments(node);
+  return context =>
+    `${context.import('@ember/component/helper', 'helper')}(${context.import(runtimeModule, 'isTesting')})`;
+}
+
+function checkNoArguments(node: any) {
+  if (node.params.length !== 0) {
+    throw new Error(`macroIsTesting doesn't take any arguments, you passed ${node.params.length}`);
+  }
+}
+
+export function isDevelopingApp(node: any, appRoot: string, isDevelopingPackageRoots: string[]): boolean {
+  if (node.params.length !== 0) {
+    throw new Error(`macroIsDevelopingApp doesn't take any arguments, you passed ${node.params.length}`);
+  }
+  return isDevelopingPackageRoots.includes(appRoot);
+}
@@ -1,6 +1,10 @@
 import evaluate from './evaluate';
 
-export function macroIfBlock(node: any) {
+// Called with each macroCondition we decide, along with the nodes that got
+// dropped because their branch wasn't taken.
+export type ConditionRecorder = (condition: any, value: boolean, removed: any[]) => void;
+
+export function macroIfBlock(node: any, record?: ConditionRecorder) {
   let condition = node.params[0];
 
   if (!condition || condition.type !== 'SubExpression' || condition.path.original !== 'macroCondition') {
@@ -16,6 +20,8 @@ export function macroIfBlock(node: any) {
     throw new Error(`argument to macroCondition must be statically analyzable`);
   }
 
+  record?.(condition, Boolean(result.value), result.value ? [node.inverse].filter(Boolean) : [node.program]);
+
   if (result.value) {
     return node.program.body;
   } else {
@@ -27,7 +33,7 @@ export function macroIfBlock(node: any) {
   }
 }
 
-export function macroIfExpression(node: any, builders: any) {
+export function macroIfExpression(node: any, builders: any, record?: ConditionRecorder) {
   let condition = node.params[0];
 
   if (!condition || condition.type !== 'SubExpression' || condition.path.original !== 'macroCondition') {
@@ -43,6 +49,8 @@ export function macroIfExpression(node: any, builders: any) {
     throw new Error(`argument to macroCondition must be statically analyzable`);
   }
 
+  record?.(condition, Boolean(result.value), [node.params[result.value ? 2 : 1]].filter(Boolean));
+
   if (result.value) {
     return node.params[1];
   } else {
@@ -50,8 +58,8 @@ export function macroIfExpression(node: any, builders: any) {
   }
 }
 
-export function macroIfMustache(node: any, builders: any) {
-  let result = macroIfExpression(node, builders);
+export function macroIfMustache(node: any, builders: any, record?: ConditionRecorder) {
+  let result = macroIfExpression(node, builders, record);
 
   if (result === node) {
     return node;
@@ -0,0 +1,20 @@
+import { dirname } from 'path';
+import { isResolvable } from '../babel/module-exists';
+
+export default function moduleExists(
+  node: any,
+  // when we're running in traditional ember-cli, baseDir is configured and we
+  // do all lookups relative to that (single) package. But when we're running in
+  // embroider stage3 we process all packages simultaneously, so baseDir is left
+  // unconfigured and moduleName will be the full path to the source file.
+  baseDir: string | undefined,
+  moduleName: string
+): boolean {
+  if (node.params.length !== 1) {
+    throw new Error(`macroModuleExists requires one argument, you passed ${node.params.length}`);
+  }
+  if (node.params[0].type !== 'StringLiteral') {
+    throw new Error(`the argument to macroModuleExists must be a string literal`);
+  }
+  return isResolvable(node.params[0].value, baseDir ?? dirname(moduleName));
+}
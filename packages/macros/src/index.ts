@@ -35,7 +35,15 @@ export function importSync(specifier: string): unknown {
   throw new Oops(specifier);
 }
 
-export function getConfig<T>(packageName: string): T {
+export function importAsync(specifier: string): Promise<unknown> {
+  throw new Oops(specifier);
+}
+
+export function getConfig<Name extends keyof EmbroiderMacrosConfigRegistry>(
+  packageName: Name
+): EmbroiderMacrosConfigRegistry[Name];
+export function getConfig<T>(packageName: string): T;
+export function getConfig(packageName: string): unknown {
   throw new Oops(packageName);
 }
 
@@ -63,6 +71,11 @@ export function moduleExists(packageName: string): boolean {
   throw new Oops(packageName);
 }
 
+// Maps package names to the types of their configs, for getConfig(). You can
+// write this by hand, or have @embroider/macros generate it from your build's
+// actual configs with the `configTypes` option.
+export interface EmbroiderMacrosConfigRegistry {}
+
 class Oops extends Error {
   params: any[];
   constructor(...params: any[]) {
@@ -96,6 +109,18 @@ export interface EmbroiderMacrosRegistry {
     Args: { Positional: [predicate: boolean, ...bareAttrs: unknown[]] };
     Return: void;
   }>;
+  macroModuleExists: HelperLike<{
+    Args: { Positional: Parameters<typeof moduleExists> };
+    Return: ReturnType<typeof moduleExists>;
+  }>;
+  macroIsTesting: HelperLike<{
+    Args: { Positional: [] };
+    Return: ReturnType<typeof isTesting>;
+  }>;
+  macroIsDevelopingApp: HelperLike<{
+    Args: { Positional: [] };
+    Return: ReturnType<typeof isDevelopingApp>;
+  }>;
   macroFailBuild: HelperLike<{
     Args: { Positional: Parameters<typeof failBuild> };
     Return: ReturnType<typeof failBuild>;
@@ -1,5 +1,5 @@
 import fs from 'fs';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import crypto from 'crypto';
 import findUp from 'find-up';
 import type { PluginItem } from '@babel/core';
@@ -8,6 +8,8 @@ import type { FirstTransformParams } from './glimmer/ast-transform';
 import { makeFirstTransform, makeSecondTransform } from './glimmer/ast-transform';
 import type State from './babel/state';
 import partition from 'lodash/partition';
+import { configTypesModule } from './config-types';
+import { clearMacrosReport, macrosReportFile } from './report';
 
 export type SourceOfConfig = (config: object) => {
   readonly name: string;
@@ -135,6 +137,51 @@ export default class MacrosConfig {
     }
   }
 
+  private configTypesFile: string | undefined;
+
+  // Asks for a .d.ts file that types getConfig() with the configs this build
+  // ends up with. It gets rewritten whenever those configs change.
+  enableConfigTypes(filename: string) {
+    if (this.configTypesFile !== filename) {
+      if (!this._configWritable) {
+        throw new Error(`[Embroider:MacrosConfig] attempted to enableConfigTypes after configs have been finalized`);
+      }
+      this.configTypesFile = filename;
+    }
+  }
+
+  // unique to each build that writes the evaluation report, see
+  // enableEvaluationReport()
+  private evaluationReport: string | undefined;
+
+  // Records what every macro call site in the build evaluated to, into
+  // macros-report.jsonl in the embroider working dir. See readMacrosReport().
+  enableEvaluationReport() {
+    if (!this.evaluationReport) {
+      if (!this._configWritable) {
+        throw new Error(
+          `[Embroider:MacrosConfig] attempted to enableEvaluationReport after configs have been finalized`
+        );
+      }
+      // The report only gets appended to by the transforms, so it starts over
+      // with each build. That means every file needs to really get transformed
+      // again, instead of coming out of a persistent cache (like
+      // ember-cli-babel's or babel-loader's) left by an earlier build. So this
+      // goes into the cache keys of both the babel plugin and the template
+      // transforms.
+      this.evaluationReport = crypto.randomBytes(8).toString('hex');
+      clearMacrosReport(macrosReportFile(this.appRoot));
+    }
+  }
+
+  private get reportFile(): string | undefined {
+    return this.evaluationReport ? macrosReportFile(this.appRoot) : undefined;
+  }
+
+  private get reportCacheKey(): string {
+    return this.evaluationReport ?? '';
+  }
+
   private _importSyncImplementation: 'cjs' | 'eager' = 'cjs';
 
   get importSyncImplementation() {
@@ -271,11 +318,29 @@ export default class MacrosConfig {
         userConfigs[pkgRoot] = combined;
       }
       this.cachedUserConfigs = userConfigs;
+      if (this.configTypesFile) {
+        this.writeConfigTypes(this.configTypesFile, userConfigs);
+      }
     }
 
     return this.cachedUserConfigs;
   }
 
+  private writeConfigTypes(filename: string, userConfigs: { [packageRoot: string]: object }) {
+    let src = configTypesModule(
+      Object.entries(userConfigs).map(([packageRoot, config]) => ({
+        packageName: this.packageCache.get(packageRoot).name,
+        config,
+      }))
+    );
+    // only touch the file when it changes, so that we don't set off type
+    // checkers and file watchers on every build
+    if (!fs.existsSync(filename) || fs.readFileSync(filename, 'utf8') !== src) {
+      fs.mkdirSync(dirname(filename), { recursive: true });
+      fs.writeFileSync(filename, src);
+    }
+  }
+
   private makeConfigSourcer(configSources: WeakMap<object, string>): SourceOfConfig {
     return config => {
       let fromPath = configSources.get(config);
@@ -344,6 +409,10 @@ export default class MacrosConfig {
       },
 
       importSyncImplementation: this.importSyncImplementation,
+
+      get reportFile() {
+        return self.reportFile;
+      },
     };
 
     let lockFilePath = findUp.sync(['yarn.lock', 'package-lock.json', 'pnpm-lock.yaml'], { cwd: self.appRoot });
@@ -374,7 +443,18 @@ export default class MacrosConfig {
 
     return [
       [join(__dirname, 'babel', 'macros-babel-plugin.js'), opts],
-      [babelCacheBustingPluginPath, { version: cacheKey }, `@embroider/macros cache buster: ${owningPackageRoot}`],
+      [
+        babelCacheBustingPluginPath,
+        {
+          version: cacheKey,
+          // this is a getter because the evaluation report can still get
+          // enabled after our plugin config was handed out
+          get report() {
+            return self.reportCacheKey;
+          },
+        },
+        `@embroider/macros cache buster: ${owningPackageRoot}`,
+      ],
     ];
   }
 
@@ -409,6 +489,36 @@ export default class MacrosConfig {
         }
         return configs.userConfigs;
       },
+      get globalConfig() {
+        if (!configs) {
+          throw new Error(`Bug: @embroider/macros ast-transforms were not plugged into a MacrosConfig`);
+        }
+        return configs.globalConfig;
+      },
+      get isDevelopingPackageRoots() {
+        if (!configs) {
+          throw new Error(`Bug: @embroider/macros ast-transforms were not plugged into a MacrosConfig`);
+        }
+        return [...configs.isDevelopingPackageRoots];
+      },
+      get mode() {
+        if (!configs) {
+          throw new Error(`Bug: @embroider/macros ast-transforms were not plugged into a MacrosConfig`);
+        }
+        return configs.mode;
+      },
+      get reportFile() {
+        if (!configs) {
+          throw new Error(`Bug: @embroider/macros ast-transforms were not plugged into a MacrosConfig`);
+        }
+        return configs.reportFile;
+      },
+      get reportCacheKey() {
+        if (!configs) {
+          throw new Error(`Bug: @embroider/macros ast-transforms were not plugged into a MacrosConfig`);
+        }
+        return configs.reportCacheKey;
+      },
       packageRoot: owningPackageRoot,
       get appRoot() {
         if (!configs) {
@@ -418,7 +528,7 @@ export default class MacrosConfig {
       },
     };
 
-    let plugins = [makeFirstTransform(lazyParams), makeSecondTransform()];
+    let plugins = [makeFirstTransform(lazyParams), makeSecondTransform(lazyParams)];
     function setConfig(c: MacrosConfig) {
       configs = c;
     }
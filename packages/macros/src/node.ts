@@ -5,6 +5,10 @@
 export { default as MacrosConfig } from './macros-config';
 export type { Merger } from './macros-config';
 
+// Reading back what the macros decided, when the evaluation report is enabled.
+export { readMacrosReport } from './report';
+export type { MacrosReportEntry, MacroEvaluation } from './report';
+
 // Utility for detecting our babel and AST plugins.
 import type { PluginItem } from '@babel/core';
 export function isEmbroiderMacrosPlugin(item: PluginItem) {
@@ -0,0 +1,65 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import { dirname, join } from 'path';
+import { locateEmbroiderWorkingDir } from '@embroider/shared-internals';
+
+// One macro call site, and what it decided.
+export interface MacroEvaluation {
+  // the macro, like "macroCondition" or "getOwnConfig" (for JS) or
+  // "macroGetOwnConfig" (for templates)
+  macro: string;
+  line: number;
+  column: number;
+  // the value the macro evaluated to. For macroCondition, this is the value of
+  // the predicate.
+  value?: unknown;
+  // true when the macro was left for the runtime to evaluate, which happens in
+  // run-time mode
+  runtime?: boolean;
+  // for macroCondition, how many characters of source were removed along with
+  // the branch that wasn't taken
+  removedSize?: number;
+}
+
+// Everything we evaluated in one Javascript module or one template.
+export interface MacrosReportEntry {
+  kind: 'js' | 'template';
+  // the absolute path to the file. Classic builds don't know that, so there
+  // it's the runtime module name for templates and the owning package's root
+  // for Javascript.
+  file: string;
+  // the name of the package that owns the file, when we could tell
+  package: string | undefined;
+  evaluations: MacroEvaluation[];
+}
+
+export function macrosReportFile(appRoot: string): string {
+  return join(locateEmbroiderWorkingDir(appRoot), 'macros-report.jsonl');
+}
+
+export function clearMacrosReport(reportFile: string): void {
+  rmSync(reportFile, { force: true });
+}
+
+// Transforms can run in parallel worker processes, so each entry goes into the
+// report as a single appended line rather than by rewriting a shared file.
+export function appendToMacrosReport(reportFile: string, entry: MacrosReportEntry): void {
+  if (entry.evaluations.length === 0) {
+    return;
+  }
+  mkdirSync(dirname(reportFile), { recursive: true });
+  appendFileSync(reportFile, JSON.stringify(entry) + '\n');
+}
+
+// Reads back the report that a build wrote when
+// MacrosConfig.enableEvaluationReport() was on. A file that got transformed
+// more than once (like in a rebuild) shows up more than once.
+export function readMacrosReport(appRoot: string): MacrosReportEntry[] {
+  let reportFile = macrosReportFile(appRoot);
+  if (!existsSync(reportFile)) {
+    return [];
+  }
+  return readFileSync(reportFile, 'utf8')
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line));
+}
@@ -0,0 +1,71 @@
+import { allBabelVersions } from './helpers';
+import type { MacrosConfig } from '../../src/node';
+
+describe('importAsync', function () {
+  allBabelVersions(function createTests(transform: (code: string) => string, config: MacrosConfig) {
+    config.setOwnConfig(__filename, { target: '@embroider/core/src/index' });
+    config.finalize();
+
+    test('importAsync becomes import() when the module exists', () => {
+      let code = transform(`
+      import { importAsync } from '@embroider/macros';
+      importAsync('@embroider/core/src/index');
+      `);
+      expect(code).toMatch(/import\(['"]@embroider\/core\/src\/index['"]\)/);
+      expect(code).not.toMatch(/@embroider\/macros/);
+    });
+
+    test('importAsync rejects when the module does not exist', () => {
+      let code = transform(`
+      import { importAsync } from '@embroider/macros';
+      importAsync('not-a-real-dep');
+      `);
+      expect(code).toMatch(
+        /Promise\.reject\(new Error\(['"]importAsync could not find \\"not-a-real-dep\\" at build time['"]\)\)/
+      );
+      expect(code).not.toMatch(/import\(/);
+    });
+
+    test('importAsync agrees with moduleExists about relative imports', () => {
+      let code = transform(`
+      import { importAsync, moduleExists } from '@embroider/macros';
+      export const exists = moduleExists('./dependency-satisfies.test');
+      export const missing = moduleExists('./nope');
+      importAsync('./dependency-satisfies.test');
+      importAsync('./nope');
+      `);
+      expect(code).toMatch(/exists = true/);
+      expect(code).toMatch(/missing = false/);
+      expect(code).toMatch(/import\(['"]\.\/dependency-satisfies\.test['"]\)/);
+      expect(code).toMatch(/could not find \\"\.\/nope\\"/);
+    });
+
+    test('importAsync accepts a macro-expanded argument', () => {
+      let code = transform(`
+      import { importAsync, getOwnConfig } from '@embroider/macros';
+      importAsync(getOwnConfig().target);
+      `);
+      expect(code).toMatch(/import\(['"]@embroider\/core\/src\/index['"]\)/);
+    });
+
+    test('args length error', () => {
+      expect(() => {
+        transform(`
+          import { importAsync } from '@embroider/macros';
+          importAsync('foo', 'bar');
+        `);
+      }).toThrow(/importAsync takes exactly one argument, you passed 2/);
+    });
+
+    test('non static arg error', () => {
+      expect(() => {
+        transform(`
+          import { importAsync } from '@embroider/macros';
+          export default function(name) {
+            return importAsync(name);
+          }
+        `);
+      }).toThrow(/the argument to importAsync must be a statically known string/);
+    });
+  });
+});
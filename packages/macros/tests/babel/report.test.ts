@@ -0,0 +1,87 @@
+import { allBabelVersions } from './helpers';
+import { MacrosConfig, readMacrosReport } from '../../src/node';
+import { clearMacrosReport, macrosReportFile } from '../../src/report';
+import { join } from 'path';
+
+describe('evaluation report', function () {
+  beforeEach(function () {
+    clearMacrosReport(macrosReportFile(__dirname));
+  });
+
+  describe('build-time', function () {
+    allBabelVersions(function createTests(transform: (code: string) => string, config: MacrosConfig) {
+      config.setOwnConfig(__filename, { mode: 'amazing' });
+      config.enableEvaluationReport();
+      config.finalize();
+
+      test('records what each macro evaluated to', () => {
+        transform(`
+import { macroCondition, getOwnConfig, dependencySatisfies } from '@embroider/macros';
+export const hasInternals = dependencySatisfies('@embroider/shared-internals', '*');
+export default function() {
+  if (macroCondition(getOwnConfig().mode === 'amazing')) {
+    return 'yes';
+  } else {
+    return 'nope';
+  }
+}
+`);
+        let [entry, ...rest] = readMacrosReport(__dirname);
+        expect(rest).toEqual([]);
+        expect(entry.kind).toEqual('js');
+        expect(entry.file).toEqual(join(__dirname, 'sample.js'));
+        expect(entry.package).toEqual('@embroider/macros');
+        expect(entry.evaluations).toEqual([
+          { macro: 'dependencySatisfies', line: 3, column: 28, value: true },
+          { macro: 'macroCondition', line: 5, column: 6, value: true, removedSize: 24 },
+        ]);
+      });
+
+      test('skips modules without macros', () => {
+        transform(`export default function() { return 1; }`);
+        expect(readMacrosReport(__dirname)).toEqual([]);
+      });
+    });
+  });
+
+  describe('caching', function () {
+    function cacheBuster(report: boolean) {
+      let config = MacrosConfig.for({}, __dirname);
+      if (report) {
+        config.enableEvaluationReport();
+      }
+      config.finalize();
+      return JSON.stringify(config.babelPluginConfig()[1]);
+    }
+
+    test('each build that writes the report gets a new babel cache key', () => {
+      expect(cacheBuster(true)).not.toEqual(cacheBuster(true));
+    });
+
+    test('builds without the report keep their babel cache key', () => {
+      expect(cacheBuster(false)).toEqual(cacheBuster(false));
+    });
+  });
+
+  describe('run-time', function () {
+    allBabelVersions(function createTests(transform: (code: string) => string, config: MacrosConfig) {
+      config.enableRuntimeMode();
+      config.enableEvaluationReport();
+      config.finalize();
+
+      test('records the macros that were left for the runtime', () => {
+        transform(`
+import { macroCondition, isTesting, getOwnConfig } from '@embroider/macros';
+export default function() {
+  return macroCondition(isTesting()) ? getOwnConfig() : null;
+}
+`);
+        expect(readMacrosReport(__dirname)[0].evaluations).toEqual([
+          { macro: 'macroCondition', line: 4, column: 9, runtime: true },
+          { macro: 'isTesting', line: 4, column: 24, runtime: true },
+          { macro: 'getOwnConfig', line: 4, column: 39, runtime: true },
+        ]);
+      });
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { MacrosConfig } from '../src/node';
+import { configTypesModule } from '../src/config-types';
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+
+describe('config types', function () {
+  test('describes each config', function () {
+    expect(
+      configTypesModule([
+        {
+          packageName: 'my-addon',
+          config: { str: 'yes', num: 10, nil: null, arr: ['yes', 10], 'with-dash': { nested: true }, empty: [] },
+        },
+        { packageName: '@scope/other', config: {} },
+      ])
+    ).toMatchInlineSnapshot(`
+      "// This file is generated by @embroider/macros from the config that your
+      // build passes to setConfig and setOwnConfig. Don't edit it by hand.
+      import '@embroider/macros';
+
+      declare module '@embroider/macros' {
+        interface EmbroiderMacrosConfigRegistry {
+          '@scope/other': Record<string, never>;
+          'my-addon': {
+            str: string;
+            num: number;
+            nil: null;
+            arr: (string | number)[];
+            'with-dash': {
+              nested: boolean;
+            };
+            empty: unknown[];
+          };
+        }
+      }
+      "
+    `);
+  });
+
+  test('unions the configs of multiple copies of a package', function () {
+    expect(
+      configTypesModule([
+        { packageName: 'my-addon', config: { a: 1 } },
+        { packageName: 'my-addon', config: { a: 'one' } },
+      ])
+    ).toMatch(`'my-addon': {\n      a: number;\n    } | {\n      a: string;\n    };`);
+  });
+
+  test('MacrosConfig writes them once its configs are final', function () {
+    let dir = mkdtempSync(join(tmpdir(), 'embroider-macros-config-types-'));
+    try {
+      let filename = join(dir, 'types', 'macros-config.d.ts');
+      let macrosConfig = MacrosConfig.for({}, resolve(__dirname, '..'));
+      macrosConfig.setConfig(__filename, 'scenario-tester', { color: 'red' });
+      macrosConfig.enableConfigTypes(filename);
+      macrosConfig.finalize();
+      expect(() => statSync(filename)).toThrow();
+
+      // reading the configs (like the babel plugin does) is what writes them
+      (macrosConfig.babelPluginConfig()[0] as any)[1].userConfigs;
+      expect(readFileSync(filename, 'utf8')).toMatch(`'scenario-tester': {\n      color: string;\n    };`);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { templateTests } from './helpers';
+import type { MacrosConfig } from '../../src/node';
+import { resolve } from 'path';
+
+describe('template env macros', function () {
+  describe('true cases', function () {
+    templateTests(function (transform: (code: string) => string, config: MacrosConfig) {
+      config.setGlobalConfig(__filename, '@embroider/macros', { isTesting: true });
+      config.enablePackageDevelopment(resolve(__dirname, '..', '..'));
+      config.finalize();
+
+      test('macroIsTesting in content position', function () {
+        expect(transform(`{{macroIsTesting}}`)).toEqual('{{true}}');
+      });
+
+      test('macroIsDevelopingApp in content position', function () {
+        expect(transform(`{{macroIsDevelopingApp}}`)).toEqual('{{true}}');
+      });
+
+      test('macroIsTesting in subexpression position', function () {
+        expect(transform(`{{#if (macroCondition (macroIsTesting))}}red{{else}}blue{{/if}}`)).toEqual('red');
+      });
+    });
+  });
+
+  describe('false cases', function () {
+    templateTests(function (transform: (code: string) => string) {
+      test('macroIsTesting in content position', function () {
+        expect(transform(`{{macroIsTesting}}`)).toEqual('{{false}}');
+      });
+
+      test('macroIsDevelopingApp in subexpression position', function () {
+        expect(transform(`{{#if (macroCondition (macroIsDevelopingApp))}}red{{else}}blue{{/if}}`)).toEqual('blue');
+      });
+
+      test('args error', function () {
+        expect(() => transform(`{{macroIsTesting 'x'}}`)).toThrow(
+          /macroIsTesting doesn't take any arguments, you passed 1/
+        );
+      });
+    });
+  });
+
+  describe('run-time mode', function () {
+    templateTests(function (transform: (code: string) => string, config: MacrosConfig) {
+      config.enableRuntimeMode();
+      config.finalize();
+
+      test('macroIsTesting in content position asks the runtime', function () {
+        expect(transform(`{{macroIsTesting}}`)).toMatch(/^\{\{macroIsTesting\d+\}\}$/);
+      });
+
+      test('macroIsTesting in subexpression position asks the runtime', function () {
+        expect(transform(`{{#if (macroIsTesting)}}red{{else}}blue{{/if}}`)).toMatch(
+          /^\{\{#if \(macroIsTesting\d+\)\}\}red\{\{else\}\}blue\{\{\/if\}\}$/
+        );
+      });
+
+      test('macroIsTesting can not pick a branch at build time', function () {
+        expect(() => transform(`{{#if (macroCondition (macroIsTesting))}}red{{else}}blue{{/if}}`)).toThrow(
+          /argument to macroCondition must be statically analyzable/
+        );
+      });
+    });
+  });
+});
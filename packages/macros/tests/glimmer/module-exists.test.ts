@@ -0,0 +1,44 @@
+import { templateTests } from './helpers';
+
+describe('macroModuleExists', function () {
+  templateTests(function (transform: (code: string) => string) {
+    test('in content position', function () {
+      let code = transform(`{{macroModuleExists '@embroider/core/src/index'}}`);
+      expect(code).toEqual('{{true}}');
+    });
+
+    test('in subexpression position', function () {
+      let code = transform(`<Foo @a={{if (macroModuleExists 'not-a-real-dep') 'yes' 'no'}} />`);
+      expect(code).toMatch(/@a=\{\{if false ["']yes["'] ["']no["']\}\}/);
+    });
+
+    test('package import is not satisfied', function () {
+      let code = transform(`{{macroModuleExists '@embroider/core/not/a/real/thing'}}`);
+      expect(code).toEqual('{{false}}');
+    });
+
+    test('relative import is satisfied', function () {
+      let code = transform(`{{macroModuleExists './helpers'}}`);
+      expect(code).toEqual('{{true}}');
+    });
+
+    test('it can be used with macroCondition', function () {
+      let code = transform(
+        `{{#if (macroCondition (macroModuleExists 'not-a-real-dep'))}}<OptionalThing />{{else}}<Fallback />{{/if}}`
+      );
+      expect(code).toEqual('<Fallback />');
+    });
+
+    test('non literal arg error', function () {
+      expect(() => transform(`{{macroModuleExists this.name}}`)).toThrow(
+        /the argument to macroModuleExists must be a string literal/
+      );
+    });
+
+    test('args length error', function () {
+      expect(() => transform(`{{macroModuleExists 'foo' 'bar'}}`)).toThrow(
+        /macroModuleExists requires one argument, you passed 2/
+      );
+    });
+  });
+});
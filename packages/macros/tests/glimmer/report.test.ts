@@ -0,0 +1,48 @@
+import { templateTests } from './helpers';
+import { readMacrosReport } from '../../src/node';
+import type { MacrosConfig } from '../../src/node';
+import { clearMacrosReport, macrosReportFile } from '../../src/report';
+import { join, resolve } from 'path';
+
+describe('template evaluation report', function () {
+  let appRoot = resolve(__dirname, '..', '..');
+
+  beforeEach(function () {
+    clearMacrosReport(macrosReportFile(appRoot));
+  });
+
+  templateTests(function (transform: (code: string) => string, config: MacrosConfig) {
+    config.setOwnConfig(__filename, { mode: 'amazing' });
+    config.enableEvaluationReport();
+    config.finalize();
+
+    test('records what each macro evaluated to', function () {
+      let code = transform(
+        `{{macroGetOwnConfig "mode"}}\n{{#if (macroCondition (macroDependencySatisfies "@embroider/shared-internals" "*"))}}red{{else}}blue{{/if}}`
+      );
+      expect(code).toEqual('{{"amazing"}}\nred');
+      let entries = readMacrosReport(appRoot);
+      expect(entries.map(e => [e.kind, e.file, e.package])).toEqual([
+        ['template', join(__dirname, 'sample.hbs'), '@embroider/macros'],
+      ]);
+      expect(entries[0].evaluations).toEqual([
+        { macro: 'macroGetOwnConfig', line: 1, column: 0, value: 'amazing' },
+        { macro: 'macroDependencySatisfies', line: 2, column: 22, value: true },
+        { macro: 'macroCondition', line: 2, column: 6, value: true, removedSize: 4 },
+      ]);
+    });
+
+    test('writes one entry for a template with macroCondition only', function () {
+      transform(`{{#if (macroCondition true)}}red{{else}}blue{{/if}}`);
+      let entries = readMacrosReport(appRoot);
+      expect(entries.map(e => e.evaluations)).toEqual([
+        [{ macro: 'macroCondition', line: 1, column: 6, value: true, removedSize: 4 }],
+      ]);
+    });
+
+    test('skips templates without macros', function () {
+      transform(`<div>hello</div>`);
+      expect(readMacrosReport(appRoot)).toEqual([]);
+    });
+  });
+});
@@ -12,19 +12,138 @@ interface GlobalConfig {
 
 type EngineInfoByRoute = Record<string, { name: string }>;
 
-let Router: typeof EmberRouter;
+interface LazyBundle {
+  names: string[];
+  loaded?: true;
+  load: () => Promise<void>;
+}
+
+interface RouteRecognizer {
+  recognize(path: string): ArrayLike<{ handler: string }> | undefined;
+}
+
+// - "manual": bundles only load when a transition needs them or when you call
+//   router.prefetch(routeName) yourself.
+// - "hover": also prefetch when the user hovers, focuses or touches a link to
+//   a lazy route.
+// - "visible": also prefetch when a link to a lazy route scrolls into view.
+// - "idle": also prefetch every lazy bundle once the browser is idle after
+//   the app boots.
+export type PrefetchStrategy = 'manual' | 'hover' | 'visible' | 'idle';
+
+// Thrown (and passed to EmbroiderRouter#onLazyBundleLoadFailure) once a lazy
+// bundle has failed to load and we've run out of retries.
+export class LazyBundleLoadError extends Error {
+  constructor(
+    readonly routeName: string,
+    readonly bundleNames: string[],
+    readonly attempts: number,
+    readonly cause: unknown
+  ) {
+    super(
+      `@embroider/router failed to load the lazy bundle for route "${routeName}" (the bundle containing ${bundleNames
+        .map(name => `"${name}"`)
+        .join(', ')}) after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = 'LazyBundleLoadError';
+  }
+}
+
+// What @embroider/router adds to EmberRouter. Classic builds have all of it
+// too, so apps don't need to check how they're built before using it.
+interface Router extends EmberRouter {
+  prefetchStrategy: PrefetchStrategy;
+  lazyBundleRetries: number;
+  lazyBundleRetryDelay: number;
+  onLazyBundleLoadFailure?(error: LazyBundleLoadError): void;
+  prefetch(routeName: string): Promise<void>;
+}
+
+type RouterClass = Omit<typeof EmberRouter, 'prototype'> & {
+  new (...args: ConstructorParameters<typeof EmberRouter>): Router;
+  prototype: Router;
+};
+
+let Router: RouterClass;
 
 if (macroCondition(getGlobalConfig<GlobalConfig>()['@embroider/core']?.active ?? false)) {
   const waiter = buildWaiter('@embroider/router:lazy-route-waiter');
 
   function embroiderBundles(): {
-    _embroiderEngineBundles_?: { names: string[]; loaded?: true; load: () => Promise<void> }[];
-    _embroiderRouteBundles_?: { names: string[]; loaded?: true; load: () => Promise<void> }[];
+    _embroiderEngineBundles_?: LazyBundle[];
+    _embroiderRouteBundles_?: LazyBundle[];
   } {
     return window as ReturnType<typeof embroiderBundles>;
   }
 
+  // shared by transitions and prefetching, so that a bundle that's already on
+  // its way doesn't get requested twice.
+  const inFlight = new WeakMap<LazyBundle, Promise<void>>();
+
+  async function loadWithRetries(routeName: string, bundle: LazyBundle, retries: number, delay: number) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await bundle.load();
+        return;
+      } catch (cause) {
+        // Browsers fail a native import() with a TypeError and remember that
+        // failure for as long as the page stays open, so trying again would
+        // only fail again without a new request.
+        if (attempt > retries || cause instanceof TypeError) {
+          throw new LazyBundleLoadError(routeName, bundle.names, attempt, cause);
+        }
+        await new Promise(resolve => setTimeout(resolve, delay * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  function whenIdle(fn: () => void) {
+    if (typeof window.requestIdleCallback === 'function') {
+      window.requestIdleCallback(fn);
+    } else {
+      setTimeout(fn, 1);
+    }
+  }
+
   class EmbroiderRouter extends EmberRouter {
+    // Subclasses can set this to start loading lazy bundles before a
+    // transition actually needs them.
+    prefetchStrategy: PrefetchStrategy = 'manual';
+
+    // How many more times we try a lazy bundle after its first load fails, and
+    // how long we wait before the first retry. The wait doubles on every
+    // following retry. Failed native import()s (which is what Vite builds use)
+    // never get retried, see loadWithRetries.
+    lazyBundleRetries = 2;
+    lazyBundleRetryDelay = 500;
+
+    // Called once a lazy bundle that a transition needs has permanently failed
+    // to load. Failed prefetches don't call this, because the user hasn't asked
+    // to go anywhere yet. The typical cause is a deploy that removed the old
+    // chunks, so apps may want to implement this to force a full page reload.
+    // Either way, the error also rejects the transition.
+    onLazyBundleLoadFailure?(error: LazyBundleLoadError): void;
+
+    private prefetchTeardown: (() => void) | undefined;
+
+    // Starts loading the lazy bundles needed to enter the given route (and its
+    // parents). Resolves once they're loaded, and does nothing for routes that
+    // aren't lazy.
+    async prefetch(routeName: string): Promise<void> {
+      let parts = routeName.split('.');
+      let bundles = new Map<LazyBundle, string>();
+      for (let i = 1; i <= parts.length; i++) {
+        let name = parts.slice(0, i).join('.');
+        let bundle = this.lazyBundle(name);
+        if (bundle && !bundles.has(bundle) && !bundle.loaded) {
+          bundles.set(bundle, name);
+        }
+      }
+      await Promise.all([...bundles].map(([bundle, name]) => this.loadLazyBundle(name, bundle)));
+    }
+
     private lazyBundle(routeName: string) {
       let engineInfoByRoute = (this as unknown as { _engineInfoByRoute: EngineInfoByRoute })._engineInfoByRoute;
 
@@ -70,36 +189,205 @@ if (macroCondition(getGlobalConfig<GlobalConfig>()['@embroider/core']?.active ??
       let isSetup = super.setupRouter(...args);
       let microLib = (this as unknown as { _routerMicrolib: { getRoute: (name: string) => unknown } })._routerMicrolib;
       microLib.getRoute = this._handlerResolver(microLib.getRoute.bind(microLib));
+      if (!this.prefetchTeardown && typeof document !== 'undefined') {
+        this.prefetchTeardown = this.setupPrefetching();
+      }
       return isSetup;
     }
 
+    willDestroy() {
+      this.prefetchTeardown?.();
+      super.willDestroy();
+    }
+
     private _handlerResolver(original: (name: string) => unknown) {
       return (name: string) => {
         const bundle = this.lazyBundle(name);
         if (!bundle || bundle.loaded) {
           return original(name);
         }
+        return this.loadLazyBundle(name, bundle).then(
+          () => original(name),
+          (err: LazyBundleLoadError) => {
+            this.onLazyBundleLoadFailure?.(err);
+            throw err;
+          }
+        );
+      };
+    }
 
+    private loadLazyBundle(routeName: string, bundle: LazyBundle): Promise<void> {
+      let pending = inFlight.get(bundle);
+      if (!pending) {
         let token = waiter.beginAsync();
-
-        return bundle.load().then(
+        pending = loadWithRetries(routeName, bundle, this.lazyBundleRetries, this.lazyBundleRetryDelay).then(
           () => {
             waiter.endAsync(token);
             bundle.loaded = true;
-            return original(name);
+            inFlight.delete(bundle);
           },
-          err => {
+          (err: LazyBundleLoadError) => {
             waiter.endAsync(token);
+            // forgetting the failed load means the next transition or
+            // prefetch starts over
+            inFlight.delete(bundle);
             throw err;
           }
         );
+        inFlight.set(bundle, pending);
+      }
+      return pending;
+    }
+
+    private prefetchInBackground(routeName: string, bundle: LazyBundle) {
+      this.loadLazyBundle(routeName, bundle).catch(() => {
+        // a real transition into this route will try again, and that's the
+        // failure worth reporting
+      });
+    }
+
+    private setupPrefetching(): (() => void) | undefined {
+      switch (this.prefetchStrategy) {
+        case 'hover':
+          return this.prefetchOnHover();
+        case 'visible':
+          return this.prefetchWhenVisible();
+        case 'idle':
+          return this.prefetchOnIdle();
+      }
+      return undefined;
+    }
+
+    private prefetchOnHover() {
+      let listener = (event: Event) => {
+        let link = event.target instanceof Element ? event.target.closest('a[href]') : null;
+        if (link instanceof HTMLAnchorElement) {
+          this.prefetchLink(link);
+        }
+      };
+      let events = ['mouseover', 'focusin', 'touchstart'];
+      for (let name of events) {
+        document.addEventListener(name, listener, { passive: true });
+      }
+      return () => {
+        for (let name of events) {
+          document.removeEventListener(name, listener);
+        }
+      };
+    }
+
+    private prefetchWhenVisible() {
+      if (typeof IntersectionObserver === 'undefined' || typeof MutationObserver === 'undefined') {
+        return undefined;
+      }
+      let intersections = new IntersectionObserver(entries => {
+        for (let entry of entries) {
+          if (entry.isIntersecting) {
+            intersections.unobserve(entry.target);
+            this.prefetchLink(entry.target as HTMLAnchorElement);
+          }
+        }
+      });
+      let observeLinks = (root: ParentNode) => {
+        for (let link of root.querySelectorAll('a[href]')) {
+          intersections.observe(link);
+        }
+      };
+      // links come and go as the app renders, so we keep watching for new ones
+      let mutations = new MutationObserver(records => {
+        for (let record of records) {
+          for (let node of record.addedNodes) {
+            if (node instanceof HTMLAnchorElement && node.hasAttribute('href')) {
+              intersections.observe(node);
+            } else if (node instanceof Element) {
+              observeLinks(node);
+            }
+          }
+        }
+      });
+      observeLinks(document);
+      mutations.observe(document.body, { childList: true, subtree: true });
+      return () => {
+        mutations.disconnect();
+        intersections.disconnect();
       };
     }
+
+    private prefetchOnIdle() {
+      let cancelled = false;
+      whenIdle(() => {
+        if (cancelled) {
+          return;
+        }
+        let { _embroiderRouteBundles_ = [], _embroiderEngineBundles_ = [] } = embroiderBundles();
+        for (let bundle of [..._embroiderRouteBundles_, ..._embroiderEngineBundles_]) {
+          if (!bundle.loaded) {
+            this.prefetchInBackground(bundle.names[0] ?? '', bundle);
+          }
+        }
+      });
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    private usesHashLocation(): boolean {
+      // this is the name from the app's config until the router sets up, and
+      // the Location instance after that
+      let location = (this as unknown as { location?: string | { implementation?: string } }).location;
+      return location === 'hash' || (typeof location === 'object' && location?.implementation === 'hash');
+    }
+
+    private prefetchLink(link: HTMLAnchorElement) {
+      if (link.origin !== window.location.origin) {
+        return;
+      }
+      let microLib = (this as unknown as { _routerMicrolib?: { recognizer: RouteRecognizer } })._routerMicrolib;
+      let path: string;
+      if (this.usesHashLocation()) {
+        // the route is the part after the "#", like "#/people/1"
+        if (!link.hash.startsWith('#/')) {
+          return;
+        }
+        path = link.hash.slice(1);
+      } else {
+        let rootURL = (this as unknown as { rootURL?: string }).rootURL ?? '/';
+        path = link.pathname;
+        if (path.startsWith(rootURL)) {
+          path = '/' + path.slice(rootURL.length);
+        }
+      }
+      // we're only asking the recognizer for route names here. Going through
+      // the router's own recognize() would try to resolve the routes, which is
+      // exactly the lazy load we're trying to get ahead of.
+      let matches = microLib?.recognizer.recognize(path);
+      if (!matches) {
+        return;
+      }
+      for (let { handler } of Array.from(matches)) {
+        let bundle = this.lazyBundle(handler);
+        if (bundle && !bundle.loaded) {
+          this.prefetchInBackground(handler, bundle);
+        }
+      }
+    }
   }
 
   Router = EmbroiderRouter;
 } else {
-  Router = EmberRouter;
+  Router = class ClassicRouter extends EmberRouter {
+    // nothing is lazy in classic builds, so these don't do anything
+    prefetchStrategy: PrefetchStrategy = 'manual';
+    lazyBundleRetries = 2;
+    lazyBundleRetryDelay = 500;
+    onLazyBundleLoadFailure?(error: LazyBundleLoadError): void;
+
+    async prefetch(): Promise<void> {
+      // nothing is lazy in classic builds, so there's never anything to
+      // prefetch. This exists so that apps can call it without checking how
+      // they're built.
+    }
+  };
 }
 
 export default Router;
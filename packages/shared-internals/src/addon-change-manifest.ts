@@ -0,0 +1,39 @@
+import { join } from 'path';
+import { existsSync } from 'fs';
+import { outputJSONSync, readJSONSync } from 'fs-extra';
+import { locateEmbroiderWorkingDir } from './working-dir';
+
+// A v2 addon that is being rebuilt in place (like a linked addon in a
+// monorepo) rewrites its own package.json metadata. After each rewrite, the
+// build writes one of these so that apps which are already running know that
+// the metadata settled and that they should read it again.
+export interface AddonChangeManifest {
+  // increments on every change, so that watchers can tell changes apart
+  generation: number;
+  // the package.json fields that were rewritten, like "ember-addon.app-js"
+  changed: string[];
+}
+
+export function addonChangeManifestPath(addonRoot: string): string {
+  return join(locateEmbroiderWorkingDir(addonRoot), 'addon-changes.json');
+}
+
+export function readAddonChangeManifest(addonRoot: string): AddonChangeManifest | undefined {
+  let path = addonChangeManifestPath(addonRoot);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    return readJSONSync(path);
+  } catch (err) {
+    // we can catch it halfway through being written, in which case the
+    // watcher fires again once it's done
+    return undefined;
+  }
+}
+
+export function writeAddonChangeManifest(addonRoot: string, changed: string[]): void {
+  let generation = (readAddonChangeManifest(addonRoot)?.generation ?? 0) + 1;
+  let manifest: AddonChangeManifest = { generation, changed };
+  outputJSONSync(addonChangeManifestPath(addonRoot), manifest);
+}
@@ -10,6 +10,7 @@ export { default as packageName } from './package-name';
 export { default as tmpdir } from './tmpdir';
 export * from './ember-cli-models';
 export * from './ember-standard-modules';
+export { stockTreeNames, defaultTreePaths, dynamicTreeHooks } from './v1-addon-trees';
 export { hbsToJS } from './hbs-to-js';
 export {
   default as templateColocationPlugin,
@@ -23,5 +24,7 @@ export {
   version as cacheBustingPluginVersion,
 } from './babel-plugin-cache-busting';
 export { locateEmbroiderWorkingDir } from './working-dir';
+export type { AddonChangeManifest } from './addon-change-manifest';
+export { addonChangeManifestPath, readAddonChangeManifest, writeAddonChangeManifest } from './addon-change-manifest';
 
 export * from './dep-validation';
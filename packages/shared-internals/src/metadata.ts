@@ -42,6 +42,9 @@ export interface AddonMeta {
   };
   'renamed-packages'?: { [fromName: string]: string };
   'renamed-modules'?: { [fromName: string]: string };
+  // rules for the compat build's template resolver, in the form of
+  // ShippedPackageRules from @embroider/compat
+  'embroider-rules'?: unknown[];
   version: 2;
 }
 
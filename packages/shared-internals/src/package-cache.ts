@@ -66,6 +66,17 @@ export default class PackageCache {
     return p;
   }
 
+  // Forgets every package we know about, so that get() and resolve() read
+  // package.json files again. Forgetting only the package that changed isn't
+  // enough, because every Package that depends on it has memoized the old one
+  // among its dependencies, and so has everything that depends on those. The
+  // Packages that we already handed out stay as they were, so get fresh ones
+  // after calling this.
+  invalidate(): void {
+    this.rootCache.clear();
+    this.resolutionCache.clear();
+  }
+
   ownerOfFile(filename: string): Package | undefined {
     let segments = filename.split(sep);
 
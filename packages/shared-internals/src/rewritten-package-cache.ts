@@ -131,8 +131,24 @@ export class RewrittenPackageCache implements PublicAPI<PackageCache> {
     return this.indexCache;
   }
 
+  private generation = 0;
+
+  // increments every time the index (or any package) is invalidated, so that
+  // things derived from them can tell when they're stale
+  get indexGeneration(): number {
+    return this.generation;
+  }
+
   invalidateIndex(): void {
     this.indexCache = undefined;
+    this.generation++;
+  }
+
+  // our WrappedPackages are keyed by the plain Packages, so once those are
+  // all new, so are the WrappedPackages
+  invalidate(): void {
+    this.plainCache.invalidate();
+    this.generation++;
   }
 
   private loadIndex(): RewrittenPackageCache['index'] {
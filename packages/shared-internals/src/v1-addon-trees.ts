@@ -0,0 +1,44 @@
+import type { AddonTreePath } from './ember-cli-models';
+
+// These are the trees that a v1 addon can ship from its own files, as opposed
+// to trees it builds in a custom hook.
+export const stockTreeNames: AddonTreePath[] = Object.freeze([
+  'addon',
+  'addon-styles',
+  'styles',
+  'addon-test-support',
+  'test-support',
+  'app',
+  'public',
+  'vendor',
+  // 'addon-templates' and 'templates are trees too, but they live inside
+  // 'addon' and 'app' and we handle them there.
+]) as AddonTreePath[];
+
+// Where ember-cli's Addon looks for each stock tree, relative to the addon's
+// root, unless the addon customizes its `treePaths`. Only useful when reading
+// a v1 addon without ember-cli, otherwise ask the addon instance.
+export const defaultTreePaths: Readonly<Record<AddonTreePath, string>> = Object.freeze({
+  addon: 'addon',
+  'addon-styles': 'addon/styles',
+  styles: 'app/styles',
+  'addon-test-support': 'addon-test-support',
+  'test-support': 'test-support',
+  app: 'app',
+  public: 'public',
+  vendor: 'vendor',
+});
+
+// These hooks let a v1 addon build its trees however it wants.
+export const dynamicTreeHooks = Object.freeze([
+  'treeFor',
+  'treeForAddon',
+  'treeForAddonTemplates',
+  'treeForAddonTestSupport',
+  'treeForApp',
+  'treeForPublic',
+  'treeForStyles',
+  'treeForTemplates',
+  'treeForTestSupport',
+  'treeForVendor',
+]);
@@ -1,4 +1,6 @@
 import PackageCache from '../src/package-cache';
+import { RewrittenPackageCache } from '../src/rewritten-package-cache';
+import type { AddonMeta } from '../src/metadata';
 import tmp from 'tmp';
 import { join } from 'path';
 import fixturify from 'fixturify';
@@ -90,4 +92,81 @@ describe('package-cache', () => {
     let packageCache = new PackageCache(tmpLocation);
     expect(packageCache.ownerOfFile(join(tmpLocation, 'inner'))!.root).toBe(join(tmpLocation, 'inner'));
   });
+
+  test('it rereads package.json after the package is invalidated', () => {
+    let { name: tmpLocation } = tmp.dirSync();
+    tmpLocation = realpathSync(tmpLocation);
+
+    fixturify.writeSync(tmpLocation, {
+      'package.json': JSON.stringify({
+        name: 'my-addon',
+        keywords: ['ember-addon'],
+        'ember-addon': { version: 2, type: 'addon', 'app-js': { './components/a.js': './dist/_app_/a.js' } },
+      }),
+    });
+    let packageCache = new PackageCache(tmpLocation);
+    expect((packageCache.get(tmpLocation).meta as AddonMeta)['app-js']).toEqual({
+      './components/a.js': './dist/_app_/a.js',
+    });
+
+    fixturify.writeSync(tmpLocation, {
+      'package.json': JSON.stringify({
+        name: 'my-addon',
+        keywords: ['ember-addon'],
+        'ember-addon': { version: 2, type: 'addon', 'app-js': { './components/b.js': './dist/_app_/b.js' } },
+      }),
+    });
+    expect((packageCache.get(tmpLocation).meta as AddonMeta)['app-js']).toEqual({
+      './components/a.js': './dist/_app_/a.js',
+    });
+    packageCache.invalidate();
+    expect((packageCache.get(tmpLocation).meta as AddonMeta)['app-js']).toEqual({
+      './components/b.js': './dist/_app_/b.js',
+    });
+  });
+
+  describe('after an addon is invalidated', () => {
+    let appRoot: string;
+
+    function writeAddon(appJS: Record<string, string>) {
+      fixturify.writeSync(join(appRoot, 'node_modules', 'my-addon'), {
+        'package.json': JSON.stringify({
+          name: 'my-addon',
+          keywords: ['ember-addon'],
+          'ember-addon': { version: 2, type: 'addon', 'app-js': appJS },
+        }),
+      });
+    }
+
+    function appJSThroughApp(packageCache: PackageCache | RewrittenPackageCache) {
+      let addon = packageCache.get(appRoot).dependencies.find(dep => dep.name === 'my-addon');
+      return (addon!.meta as AddonMeta)['app-js'];
+    }
+
+    beforeEach(() => {
+      appRoot = realpathSync(tmp.dirSync().name);
+      fixturify.writeSync(appRoot, {
+        'package.json': JSON.stringify({ name: 'my-app', dependencies: { 'my-addon': '*' } }),
+      });
+      writeAddon({ './components/a.js': './dist/_app_/a.js' });
+    });
+
+    test('the app sees the new addon among its dependencies', () => {
+      let packageCache = new PackageCache(appRoot);
+      expect(appJSThroughApp(packageCache)).toEqual({ './components/a.js': './dist/_app_/a.js' });
+
+      writeAddon({ './components/b.js': './dist/_app_/b.js' });
+      packageCache.invalidate();
+      expect(appJSThroughApp(packageCache)).toEqual({ './components/b.js': './dist/_app_/b.js' });
+    });
+
+    test('the app sees the new addon among its rewritten dependencies', () => {
+      let packageCache = new RewrittenPackageCache(new PackageCache(appRoot));
+      expect(appJSThroughApp(packageCache)).toEqual({ './components/a.js': './dist/_app_/a.js' });
+
+      writeAddon({ './components/b.js': './dist/_app_/b.js' });
+      packageCache.invalidate();
+      expect(appJSThroughApp(packageCache)).toEqual({ './components/b.js': './dist/_app_/b.js' });
+    });
+  });
 });
@@ -5,3 +5,5 @@ export * from './src/scripts.js';
 export * from './src/template-tag.js';
 export * from './src/addons.js';
 export * from './src/optimize-deps.js';
+export * from './src/route-bundles.js';
+export * from './src/macros.js';
@@ -1,22 +1,17 @@
 import type { Plugin as EsBuildPlugin, ImportKind, OnResolveResult, PluginBuild } from 'esbuild';
 import { type PluginItem, transform } from '@babel/core';
-import {
-  type Resolution,
-  type ResolverFunction,
-  ResolverLoader,
-  virtualContent,
-  locateEmbroiderWorkingDir,
-} from '@embroider/core';
-import { readFileSync, readJSONSync } from 'fs-extra';
+import { type Resolution, type ResolverFunction, ResolverLoader, virtualContent } from '@embroider/core';
+import { readFileSync } from 'fs-extra';
 import { EsBuildModuleRequest } from './esbuild-request';
 import assertNever from 'assert-never';
-import { dirname, resolve } from 'path';
+import { dirname } from 'path';
 import { hbsToJS } from '@embroider/core';
 import { Preprocessor } from 'content-tag';
+import { macrosConfigReader } from './macros';
 
 export function esBuildResolver(root = process.cwd()): EsBuildPlugin {
   let resolverLoader = new ResolverLoader(process.cwd());
-  let macrosConfig: PluginItem | undefined;
+  let macrosConfig = macrosConfigReader(root);
   let preprocessor = new Preprocessor();
 
   return {
@@ -40,12 +35,7 @@ export function esBuildResolver(root = process.cwd()): EsBuildPlugin {
 
       build.onLoad({ namespace: 'embroider', filter: /./ }, ({ path }) => {
         let src = virtualContent(path, resolverLoader.resolver);
-        if (!macrosConfig) {
-          macrosConfig = readJSONSync(
-            resolve(locateEmbroiderWorkingDir(root), 'rewritten-app', 'macros-config.json')
-          ) as PluginItem;
-        }
-        return { contents: runMacros(src, path, macrosConfig) };
+        return { contents: runMacros(src, path, macrosConfig()) };
       });
 
       build.onLoad({ filter: /\.gjs$/ }, async ({ path: filename }) => {
@@ -83,12 +73,7 @@ export function esBuildResolver(root = process.cwd()): EsBuildPlugin {
         } else {
           src = readFileSync(path, 'utf8');
         }
-        if (!macrosConfig) {
-          macrosConfig = readJSONSync(
-            resolve(locateEmbroiderWorkingDir(root), 'rewritten-app', 'macros-config.json')
-          ) as PluginItem;
-        }
-        return { contents: runMacros(src, path, macrosConfig) };
+        return { contents: runMacros(src, path, macrosConfig()) };
       });
     },
   };
@@ -0,0 +1,126 @@
+import type { HtmlTagDescriptor, Plugin } from 'vite';
+import { locateEmbroiderWorkingDir } from '@embroider/core';
+import { existsSync, outputFileSync, readFileSync, readJSONSync, statSync } from 'fs-extra';
+import { resolve } from 'path';
+import { createHash } from 'crypto';
+
+interface MacrosPluginOptions {
+  mode: 'compile-time' | 'run-time';
+  userConfigs: { [packageRoot: string]: unknown };
+  globalConfig: { [key: string]: unknown };
+}
+
+// Reads the macros babel plugin config that the compat build writes out, and
+// reads it again whenever a rebuild rewrites it.
+export function macrosConfigReader(root: string): () => [string, MacrosPluginOptions] {
+  let file = macrosConfigFile(root);
+  let mtime: number | undefined;
+  let config: [string, MacrosPluginOptions];
+  return () => {
+    let current = statSync(file).mtimeMs;
+    if (current !== mtime) {
+      config = readJSONSync(file);
+      mtime = current;
+    }
+    return config;
+  };
+}
+
+function macrosConfigFile(root: string): string {
+  return resolve(locateEmbroiderWorkingDir(root), 'rewritten-app', 'macros-config.json');
+}
+
+// In development the compat build puts the macros in run-time mode, so
+// getConfig, macroCondition and isTesting read their answers from
+// @embroider/macros' runtime module instead of having them compiled in. This
+// hands that runtime module the current config on every page load, which means
+// the app and its tests can be served side by side: pages under /tests/ see
+// isTesting() === true.
+//
+// Dependencies that vite prebundles went through the macros with whatever
+// config was current at the time, so when the config changes we restart the
+// dev server and have it prebundle them again.
+export function macros(root = process.cwd()): Plugin {
+  let readConfig = macrosConfigReader(root);
+  let warned = false;
+  let base = '/';
+
+  return {
+    name: 'embroider-macros',
+    apply: 'serve',
+
+    config(userConfig) {
+      let file = macrosConfigFile(root);
+      if (!existsSync(file)) {
+        return;
+      }
+      let hash = createHash('sha1').update(readFileSync(file)).digest('hex');
+      let hashFile = resolve(root, userConfig.cacheDir ?? 'node_modules/.vite', 'embroider-macros-config-hash');
+      if (existsSync(hashFile) && readFileSync(hashFile, 'utf8') === hash) {
+        return;
+      }
+      outputFileSync(hashFile, hash);
+      return { optimizeDeps: { force: true } };
+    },
+
+    configResolved(resolvedConfig) {
+      base = resolvedConfig.base;
+    },
+
+    configureServer(server) {
+      let file = macrosConfigFile(root);
+      server.watcher.add(file);
+      server.watcher.on('change', path => {
+        if (path === file) {
+          server.restart(true);
+        }
+      });
+    },
+
+    transformIndexHtml(_html, context) {
+      let [, opts] = readConfig();
+      if (opts.mode !== 'run-time') {
+        if (!warned) {
+          warned = true;
+          context.server?.config.logger.warn(
+            `@embroider/macros is in compile-time mode, so macro config changes need a rebuild and isTesting() can't change at runtime. Runtime mode is used for non-production builds.`
+          );
+        }
+        return;
+      }
+      // vite's own middleware hands us paths without the base, but a custom
+      // server may pass along the whole URL
+      let path = context.path.startsWith(base) ? `/${context.path.slice(base.length)}` : context.path;
+      let tag: HtmlTagDescriptor = {
+        tag: 'script',
+        children: runtimeConfigScript(opts, path.startsWith('/tests/')),
+        injectTo: 'head-prepend',
+      };
+      return [tag];
+    },
+  };
+}
+
+function runtimeConfigScript(opts: MacrosPluginOptions, isTesting: boolean): string {
+  let global = {
+    ...opts.globalConfig,
+    '@embroider/macros': { ...(opts.globalConfig['@embroider/macros'] as object), isTesting },
+  };
+  // see the _embroider_macros_runtime_config API in @embroider/macros'
+  // runtime.js. This runs before any modules, so it gets there first.
+  return `
+  (function(){
+    var key = '_embroider_macros_runtime_config';
+    if (!window[key]){ window[key] = [];}
+    window[key].push(function(m) {
+      var packages = ${scriptSafeJSON(opts.userConfigs)};
+      for (var root in packages) { m.setConfig(root, packages[root]); }
+      var global = ${scriptSafeJSON(global)};
+      for (var name in global) { m.setGlobalConfig(name, global[name]); }
+    });
+  }())`;
+}
+
+function scriptSafeJSON(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
@@ -6,11 +6,22 @@ import { RollupModuleRequest, virtualPrefix } from './request';
 import assertNever from 'assert-never';
 
 export function resolver(): Plugin {
-  let resolverLoader = new ResolverLoader(process.cwd());
+  let resolverLoader: ResolverLoader;
 
   return {
     name: 'embroider-resolver',
     enforce: 'pre',
+    configResolved(config) {
+      // in dev we pick up changes to the resolver options, including the
+      // metadata of linked v2 addons that are being rebuilt alongside the app
+      resolverLoader = new ResolverLoader(process.cwd(), config.command === 'serve');
+    },
+    configureServer(server) {
+      resolverLoader.onChange(() => {
+        server.ws.send({ type: 'full-reload' });
+      });
+      server.httpServer?.on('close', () => resolverLoader.close());
+    },
     async resolveId(source, importer, options) {
       let request = RollupModuleRequest.from(source, importer, options.custom);
       if (!request) {
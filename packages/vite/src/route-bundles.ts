@@ -0,0 +1,89 @@
+import type { Plugin } from 'vite';
+import type { OutputChunk, PreRenderedChunk } from 'rollup';
+
+// When you use `splitAtRoutes` (or lazy engines), the compat build writes one
+// entrypoint per lazy bundle into assets/_route_/ (or assets/_engine_/) and the
+// app's entrypoint registers each of them on window._embroiderRouteBundles_ (or
+// window._embroiderEngineBundles_) behind a dynamic import(). That table is
+// what @embroider/router consults in lazyBundle(), and because it's built out
+// of plain dynamic imports it works the same under `vite dev`, where each
+// bundle is served on demand, and `vite build`, where each bundle becomes a
+// chunk.
+//
+// This plugin makes sure the build keeps it that way: every lazy bundle gets
+// its own chunk, named after the route (or engine) that it belongs to, and we
+// warn if something else in the app imports one of those bundles eagerly.
+export function routeBundles(): Plugin {
+  let assetsDir = 'assets';
+
+  return {
+    name: 'embroider-route-bundles',
+
+    configResolved(resolvedConfig) {
+      assetsDir = resolvedConfig.build.assetsDir;
+    },
+
+    outputOptions(options) {
+      if (options.inlineDynamicImports) {
+        throw new Error(
+          `@embroider/vite's routeBundles() can't produce lazy route bundles when build.rollupOptions.output.inlineDynamicImports is enabled`
+        );
+      }
+      let original = options.chunkFileNames ?? `${assetsDir}/[name]-[hash].js`;
+      return {
+        ...options,
+        chunkFileNames(chunk: PreRenderedChunk) {
+          let kind = lazyBundleKind(chunk.facadeModuleId);
+          if (kind) {
+            return `${assetsDir}/${kind}/[name]-[hash].js`;
+          }
+          return typeof original === 'function' ? original(chunk) : original;
+        },
+      };
+    },
+
+    generateBundle(_options, bundle) {
+      // this hook only runs in `vite build`
+      let chunks = Object.values(bundle).filter((output): output is OutputChunk => output.type === 'chunk');
+      for (let chunk of chunks) {
+        for (let id of Object.keys(chunk.modules)) {
+          if (!lazyBundleKind(id)) {
+            continue;
+          }
+          if (id !== chunk.facadeModuleId) {
+            // rollup only folds a dynamically imported module into another
+            // chunk when something also imports it statically
+            this.warn(
+              `the lazy bundle ${id} is imported eagerly, so it was bundled into ${chunk.fileName} and its routes will not actually be loaded lazily`
+            );
+            continue;
+          }
+          let eagerImporters = eagerImportersOf(chunk, chunks);
+          if (eagerImporters.length > 0) {
+            this.warn(
+              `the lazy bundle ${id} is imported eagerly by ${eagerImporters.join(
+                ', '
+              )}, so its routes will not actually be loaded lazily`
+            );
+          }
+        }
+      }
+    },
+  };
+}
+
+export type LazyBundleKind = '_route_' | '_engine_';
+
+const lazyBundlePattern = /[\\/]assets[\\/](_route_|_engine_)[\\/][^\\/]+\.js$/;
+
+export function lazyBundleKind(moduleId: string | null | undefined): LazyBundleKind | undefined {
+  if (!moduleId) {
+    return undefined;
+  }
+  let match = lazyBundlePattern.exec(moduleId);
+  return match ? (match[1] as LazyBundleKind) : undefined;
+}
+
+function eagerImportersOf(chunk: OutputChunk, chunks: OutputChunk[]): string[] {
+  return chunks.filter(other => other.imports.includes(chunk.fileName)).map(other => other.fileName);
+}
@@ -0,0 +1,149 @@
+import type { ConfigEnv, HtmlTagDescriptor, Plugin, ResolvedConfig } from 'vite';
+import { macros } from '../src/macros';
+import { mkdtempSync, outputJSONSync, realpathSync, removeSync, utimesSync } from 'fs-extra';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// vite lets a plugin write each hook as a function or as an object that holds
+// the function
+function hook<F extends (...args: never[]) => unknown>(
+  definition: F | { handler: F } | { transform: F } | undefined
+): F {
+  if (typeof definition === 'function') {
+    return definition;
+  }
+  if (definition && 'handler' in definition) {
+    return definition.handler;
+  }
+  if (definition && 'transform' in definition) {
+    return definition.transform;
+  }
+  throw new Error('the plugin is missing this hook');
+}
+
+describe('macros', function () {
+  let root: string;
+  let configFile: string;
+
+  function writeConfig(mode: string, userConfigs: object, mtime: number) {
+    outputJSONSync(configFile, [
+      '/path/to/macros-babel-plugin.js',
+      {
+        mode,
+        userConfigs,
+        globalConfig: { '@embroider/macros': { isTesting: false } },
+      },
+    ]);
+    utimesSync(configFile, mtime, mtime);
+  }
+
+  const env: ConfigEnv = { command: 'serve', mode: 'development' };
+
+  function transformIndexHtml(plugin: Plugin, path: string): HtmlTagDescriptor[] | undefined {
+    let result = hook(plugin.transformIndexHtml)('', { path, filename: join(root, path) });
+    if (result === undefined) {
+      return undefined;
+    }
+    if (!Array.isArray(result)) {
+      throw new Error(`expected tags, not ${JSON.stringify(result)}`);
+    }
+    return result;
+  }
+
+  function scriptFor(plugin: Plugin, path: string): string | undefined {
+    let tags = transformIndexHtml(plugin, path);
+    if (!tags) {
+      return undefined;
+    }
+    let children = tags[0].children;
+    if (typeof children !== 'string') {
+      throw new Error(`expected a script`);
+    }
+    return children;
+  }
+
+  function runtimeConfig(path: string, base = '/') {
+    let plugin = macros(root);
+    hook(plugin.configResolved)({ base } as ResolvedConfig);
+    let script = scriptFor(plugin, path);
+    if (!script) {
+      return undefined;
+    }
+    let updater: (m: object) => void;
+    new Function('window', script)({
+      _embroider_macros_runtime_config: {
+        push(fn: typeof updater) {
+          updater = fn;
+        },
+      },
+    });
+    let packages: Record<string, unknown> = {};
+    let global: Record<string, unknown> = {};
+    updater!({
+      setConfig(packageRoot: string, value: unknown) {
+        packages[packageRoot] = value;
+      },
+      setGlobalConfig(key: string, value: unknown) {
+        global[key] = value;
+      },
+    });
+    return { packages, global };
+  }
+
+  beforeEach(function () {
+    root = realpathSync(mkdtempSync(join(tmpdir(), 'embroider-vite-macros-')));
+    outputJSONSync(join(root, 'package.json'), { name: 'my-app' });
+    configFile = join(root, 'node_modules', '.embroider', 'rewritten-app', 'macros-config.json');
+  });
+
+  afterEach(function () {
+    removeSync(root);
+  });
+
+  test('hands the runtime the current config', function () {
+    writeConfig('run-time', { '/path/to/my-app': { greeting: 'hello' } }, 1000);
+    expect(runtimeConfig('/index.html')).toEqual({
+      packages: { '/path/to/my-app': { greeting: 'hello' } },
+      global: { '@embroider/macros': { isTesting: false } },
+    });
+  });
+
+  test('turns on isTesting for test pages', function () {
+    writeConfig('run-time', {}, 1000);
+    expect(runtimeConfig('/tests/index.html')!.global).toEqual({ '@embroider/macros': { isTesting: true } });
+  });
+
+  test('turns on isTesting for test pages under a base', function () {
+    writeConfig('run-time', {}, 1000);
+    expect(runtimeConfig('/my-app/tests/index.html', '/my-app/')!.global).toEqual({
+      '@embroider/macros': { isTesting: true },
+    });
+    expect(runtimeConfig('/tests/index.html', '/my-app/')!.global).toEqual({
+      '@embroider/macros': { isTesting: true },
+    });
+    expect(runtimeConfig('/my-app/index.html', '/my-app/')!.global).toEqual({
+      '@embroider/macros': { isTesting: false },
+    });
+  });
+
+  test('picks up a rewritten config', function () {
+    let plugin = macros(root);
+    writeConfig('run-time', { '/path/to/my-app': { greeting: 'hello' } }, 1000);
+    expect(scriptFor(plugin, '/index.html')).toMatch(/hello/);
+    writeConfig('run-time', { '/path/to/my-app': { greeting: 'goodbye' } }, 2000);
+    expect(scriptFor(plugin, '/index.html')).toMatch(/goodbye/);
+  });
+
+  test('prebundles dependencies again when the config changes', async function () {
+    writeConfig('run-time', { '/path/to/my-app': { greeting: 'hello' } }, 1000);
+    expect(await hook(macros(root).config)({}, env)).toEqual({ optimizeDeps: { force: true } });
+    expect(await hook(macros(root).config)({}, env)).toBeUndefined();
+    writeConfig('run-time', { '/path/to/my-app': { greeting: 'goodbye' } }, 2000);
+    expect(await hook(macros(root).config)({}, env)).toEqual({ optimizeDeps: { force: true } });
+  });
+
+  test('does nothing in compile-time mode', function () {
+    writeConfig('compile-time', {}, 1000);
+    expect(runtimeConfig('/index.html')).toBeUndefined();
+  });
+});
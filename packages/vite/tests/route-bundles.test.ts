@@ -0,0 +1,194 @@
+import type { OutputChunk } from 'rollup';
+import { execFile as execFileCallback } from 'child_process';
+import { mkdtempSync, outputFileSync, realpathSync, removeSync } from 'fs-extra';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { promisify } from 'util';
+import { lazyBundleKind } from '../src/route-bundles';
+
+const execFile = promisify(execFileCallback);
+
+describe('routeBundles', function () {
+  let root: string;
+
+  // This is the shape of what the compat build writes into rewritten-app when
+  // the "people" route is split out with `splitAtRoutes`, after the macros have
+  // turned its importSync() calls into imports.
+  beforeEach(function () {
+    root = realpathSync(mkdtempSync(join(tmpdir(), 'embroider-vite-route-bundles-')));
+    outputFileSync(
+      join(root, 'index.html'),
+      `<!DOCTYPE html><html><body><script type="module" src="/assets/my-app.js"></script></body></html>`
+    );
+    outputFileSync(
+      join(root, 'assets', 'my-app.js'),
+      `
+        import * as app from "../app.js";
+        let w = window;
+        let d = w.define;
+        d("my-app/app", function(){ return app; });
+        w._embroiderRouteBundles_ = [
+          {
+            names: ["people"],
+            load: function() {
+              return import("./_route_/people.js");
+            }
+          },
+        ]
+      `
+    );
+    outputFileSync(
+      join(root, 'assets', '_route_', 'people.js'),
+      `
+        import * as route from "../../routes/people.js";
+        let d = window.define;
+        d("my-app/routes/people", function(){ return route; });
+      `
+    );
+    outputFileSync(join(root, 'app.js'), `export default class App {}`);
+    outputFileSync(join(root, 'routes', 'people.js'), `export default class PeopleRoute { peopleRoute = true }`);
+  });
+
+  afterEach(function () {
+    removeSync(root);
+  });
+
+  // vite only runs as ESM, which jest can't load, so each of these drives it
+  // from its own node process and reports back what it saw.
+  async function runVite<T>(script: string): Promise<T> {
+    let { stdout } = await execFile(
+      process.execPath,
+      [
+        '--input-type=module',
+        '-e',
+        `
+          import vite from ${JSON.stringify(pathToFileURL(require.resolve('vite')).href)};
+          import { routeBundles } from ${JSON.stringify(pathToFileURL(require.resolve('../src/route-bundles')).href)};
+          const { build, createServer } = vite;
+          const config = {
+            root: ${JSON.stringify(root)},
+            configFile: false,
+            logLevel: 'silent',
+            plugins: [routeBundles()],
+          };
+          let result;
+          try {
+            ${script}
+          } catch (err) {
+            result = { error: err.message };
+          }
+          process.stdout.write(JSON.stringify(result));
+        `,
+      ],
+      { cwd: root }
+    );
+    return JSON.parse(stdout);
+  }
+
+  interface BuildResult {
+    error?: string;
+    chunks: Pick<OutputChunk, 'fileName' | 'facadeModuleId' | 'isEntry' | 'imports' | 'dynamicImports' | 'code'>[];
+    warnings: string[];
+  }
+
+  // `output` is the source of an object literal for build.rollupOptions.output
+  function buildApp(output = '{}'): Promise<BuildResult> {
+    return runVite<BuildResult>(`
+      let warnings = [];
+      let { output: files } = await build({
+        ...config,
+        build: {
+          write: false,
+          minify: false,
+          rollupOptions: {
+            output: ${output},
+            onwarn(warning) {
+              warnings.push(warning.message);
+            },
+          },
+        },
+      });
+      result = {
+        chunks: files
+          .filter(file => file.type === 'chunk')
+          .map(({ fileName, facadeModuleId, isEntry, imports, dynamicImports, code }) => ({
+            fileName, facadeModuleId, isEntry, imports, dynamicImports, code
+          })),
+        warnings,
+      };
+    `);
+  }
+
+  test('recognizes lazy route and engine entrypoints', function () {
+    expect(lazyBundleKind('/app/node_modules/.embroider/rewritten-app/assets/_route_/people.js')).toBe('_route_');
+    expect(lazyBundleKind('/app/node_modules/.embroider/rewritten-app/assets/_engine_/lazy-engine.js')).toBe(
+      '_engine_'
+    );
+    expect(lazyBundleKind('/app/node_modules/.embroider/rewritten-app/assets/app-template.js')).toBeUndefined();
+    expect(lazyBundleKind(null)).toBeUndefined();
+  });
+
+  test('a split route is served on demand by vite dev', async function () {
+    let { app, bundle } = await runVite<{ app: string; bundle: string }>(`
+      let server = await createServer({ ...config, server: { middlewareMode: true, hmr: false } });
+      try {
+        result = {
+          app: (await server.transformRequest('/assets/my-app.js')).code,
+          bundle: (await server.transformRequest('/assets/_route_/people.js')).code,
+        };
+      } finally {
+        await server.close();
+      }
+    `);
+    expect(app).toMatch(/import\("\/assets\/_route_\/people\.js"\)/);
+    expect(app).not.toMatch(/^import .*_route_/m);
+    expect(bundle).toMatch(/from "\/routes\/people\.js"/);
+  });
+
+  test('a split route becomes its own lazily loaded chunk in vite build', async function () {
+    let { chunks, warnings } = await buildApp();
+    let entry = chunks.find(chunk => chunk.isEntry)!;
+    let people = chunks.find(chunk => chunk.facadeModuleId === join(root, 'assets', '_route_', 'people.js'))!;
+
+    expect(people.fileName).toMatch(/^assets\/_route_\/people-[^/]+\.js$/);
+    expect(people.code).toMatch(/peopleRoute/);
+    expect(entry.code).not.toMatch(/peopleRoute/);
+    expect(entry.dynamicImports).toContain(people.fileName);
+    expect(entry.imports).not.toContain(people.fileName);
+    expect(warnings).toEqual([]);
+  });
+
+  test('defers to custom chunkFileNames for other chunks', async function () {
+    outputFileSync(
+      join(root, 'assets', 'my-app.js'),
+      `
+        window._embroiderRouteBundles_ = [{ names: ["people"], load: () => import("./_route_/people.js") }];
+        window.later = () => import("../app.js");
+      `
+    );
+    let { chunks } = await buildApp('{ chunkFileNames: chunk => `custom/${chunk.name}.js` }');
+    expect(
+      chunks
+        .filter(chunk => !chunk.isEntry)
+        .map(chunk => chunk.fileName)
+        .sort()
+    ).toEqual([expect.stringMatching(/^assets\/_route_\/people-[^/]+\.js$/), 'custom/app.js']);
+  });
+
+  test('warns when a lazy bundle is imported eagerly', async function () {
+    outputFileSync(join(root, 'app.js'), `import "./assets/_route_/people.js"; export default class App {}`);
+    let { warnings } = await buildApp();
+    expect(warnings).toContainEqual(
+      expect.stringMatching(
+        /the lazy bundle .*_route_\/people\.js is imported eagerly, so it was bundled into assets\/index-/
+      )
+    );
+  });
+
+  test('refuses to inline dynamic imports', async function () {
+    await expect(buildApp('{ inlineDynamicImports: true }')).resolves.toMatchObject({
+      error: expect.stringMatching(/inlineDynamicImports/),
+    });
+  });
+});
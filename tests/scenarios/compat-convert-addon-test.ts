@@ -0,0 +1,115 @@
+import { readJSONSync } from 'fs-extra';
+import { baseAddon } from './scenarios';
+import type { PreparedApp } from 'scenario-tester';
+import { Scenarios } from 'scenario-tester';
+import QUnit from 'qunit';
+import merge from 'lodash/merge';
+import type { ExpectFile } from '@embroider/test-support/file-assertions/qunit';
+import { expectFilesAt } from '@embroider/test-support/file-assertions/qunit';
+
+const { module: Qmodule, test } = QUnit;
+
+Scenarios.fromProject(() => baseAddon('dummy-app'))
+  .map('compat-convert-addon', async addon => {
+    addon.pkg.name = 'my-v1-addon';
+    merge(addon.files, {
+      'ember-cli-build.js': `
+        'use strict';
+        const EmberAddon = require('ember-cli/lib/broccoli/ember-addon');
+        const { maybeEmbroider } = require('@embroider/test-setup');
+        module.exports = function (defaults) {
+          let app = new EmberAddon(defaults, {});
+          return maybeEmbroider(app, {
+            staticAddonTrees: true,
+            staticAddonTestSupportTrees: true,
+          });
+        };
+      `,
+      'index.js': `
+        module.exports = {
+          name: require('./package').name,
+          treeForTestSupport(tree) {
+            return tree;
+          },
+        };
+      `,
+      addon: {
+        'index.js': `export const greeting = 'hello';`,
+        components: {
+          'hello.js': `
+            import Component from '@glimmer/component';
+            export default class extends Component {}
+          `,
+        },
+        templates: {
+          'greeting.hbs': `hello`,
+        },
+      },
+      app: {
+        components: {
+          'hello.js': `export { default } from 'my-v1-addon/components/hello';`,
+        },
+      },
+    });
+    addon.linkDevDependency('@embroider/core', { baseDir: __dirname });
+    addon.linkDevDependency('@embroider/compat', { baseDir: __dirname });
+    // the conversion runs the dummy app's build, which goes through maybeEmbroider()
+    addon.linkDevDependency('@embroider/webpack', { baseDir: __dirname });
+  })
+  .forEachScenario(scenario => {
+    Qmodule(scenario.name, function (hooks) {
+      let addon: PreparedApp;
+      let result: { addonName: string; nonStatic: string[] };
+      let expectFile: ExpectFile;
+
+      hooks.before(async () => {
+        addon = await scenario.prepare();
+        let execution = await addon.execute(
+          'node ./node_modules/@embroider/compat/src/convert-addon-cli.js converted --json'
+        );
+        if (execution.exitCode !== 0) {
+          throw new Error(execution.output);
+        }
+        result = JSON.parse(execution.stdout);
+      });
+
+      hooks.beforeEach(assert => {
+        expectFile = expectFilesAt(`${addon.dir}/converted`, { qunit: assert });
+      });
+
+      test('writes the converted modules', function () {
+        expectFile('index.js').matches(/greeting = 'hello'/);
+        expectFile('components/hello.js').exists();
+        expectFile('_app_/components/hello.js').matches(/my-v1-addon\/components\/hello/);
+      });
+
+      test('writes a publishable v2 package.json', function (assert) {
+        let pkg = readJSONSync(`${addon.dir}/converted/package.json`);
+        expectFile('package.json')
+          .json('ember-addon')
+          .deepEquals({
+            version: 2,
+            type: 'addon',
+            main: 'addon-main.js',
+            'app-js': { './components/hello.js': './_app_/components/hello.js' },
+          });
+        expectFile('package.json').json('exports').deepEquals({
+          '.': './index.js',
+          './*': './*.js',
+          './*.hbs': './*.hbs',
+          './addon-main.js': './addon-main.js',
+        });
+        assert.strictEqual(pkg.main, undefined, 'the v1 main is gone');
+        assert.ok(pkg.dependencies['@embroider/addon-shim'], 'depends on the addon shim');
+        expectFile('addon-main.js').matches(/addonV1Shim\(__dirname\)/);
+      });
+
+      test('reports what it could not make static', function (assert) {
+        assert.strictEqual(result.addonName, 'my-v1-addon');
+        assert.deepEqual(result.nonStatic, [
+          'my-v1-addon has customized the test support tree',
+          `templates/greeting.hbs is a template that the app's build still needs to compile`,
+        ]);
+      });
+    });
+  });
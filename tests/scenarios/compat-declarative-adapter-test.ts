@@ -0,0 +1,122 @@
+import { appScenarios, baseAddon } from './scenarios';
+import type { PreparedApp } from 'scenario-tester';
+import QUnit from 'qunit';
+import merge from 'lodash/merge';
+import type { ExpectFile } from '@embroider/test-support/file-assertions/qunit';
+import { expectRewrittenFilesAt } from '@embroider/test-support/file-assertions/qunit';
+import { throwOnWarnings } from '@embroider/core';
+
+const { module: Qmodule, test } = QUnit;
+
+appScenarios
+  .only('release')
+  .map('compat-declarative-adapter', app => {
+    let addon = baseAddon();
+    addon.pkg.name = 'my-addon';
+    merge(addon.files, {
+      addon: {
+        helpers: {
+          'greeting.js': `export default function greeting() { return 'hello'; }`,
+        },
+        'legacy.js': `export default function legacy() { return 'old'; }`,
+      },
+      app: {
+        helpers: {
+          'greeting.js': `export { default } from 'my-addon/helpers/greeting';`,
+        },
+      },
+      vendor: {
+        'my-addon.js': `window.myAddon = true;`,
+      },
+    });
+    app.addDependency(addon);
+
+    merge(app.files, {
+      'ember-cli-build.js': `
+        'use strict';
+        const EmberApp = require('ember-cli/lib/broccoli/ember-app');
+        const { maybeEmbroider } = require('@embroider/test-setup');
+
+        function renameLegacy({ types: t }) {
+          return {
+            visitor: {
+              FunctionDeclaration(path) {
+                if (path.node.id && path.node.id.name === 'legacy') {
+                  path.node.id = t.identifier('modern');
+                }
+              },
+            },
+          };
+        }
+
+        module.exports = function (defaults) {
+          let app = new EmberApp(defaults, {});
+          return maybeEmbroider(app, {
+            skipBabel: [{ package: 'qunit' }],
+            compatAdapters: new Map([
+              ['my-addon', {
+                versions: '*',
+                rewrites: [
+                  { files: 'helpers/*.js', pattern: 'hello', flags: 'g', replacement: 'goodbye' },
+                  { files: ['legacy.js'], babelPlugins: [renameLegacy] },
+                  { files: ['legacy.js'], pattern: 'return "new"', replacement: 'return "newer"' },
+                ],
+                'implicit-modules': ['./helpers/greeting.js'],
+                'renamed-modules': { 'old-addon/index.js': 'my-addon/legacy.js' },
+                externals: ['some-global-thing'],
+                suppressedTrees: ['vendor'],
+              }],
+            ]),
+          });
+        };
+      `,
+    });
+  })
+  .forEachScenario(scenario => {
+    Qmodule(scenario.name, function (hooks) {
+      throwOnWarnings(hooks);
+
+      let app: PreparedApp;
+      let output: string;
+      let expectFile: ExpectFile;
+
+      hooks.before(async assert => {
+        app = await scenario.prepare();
+        let result = await app.execute('ember build', { env: { STAGE1_ONLY: 'true' } });
+        assert.equal(result.exitCode, 0, result.output);
+        output = result.output;
+      });
+
+      hooks.beforeEach(assert => {
+        expectFile = expectRewrittenFilesAt(app.dir, { qunit: assert });
+      });
+
+      test('rewrites files with a regex', function () {
+        expectFile('node_modules/my-addon/helpers/greeting.js').matches(/return 'goodbye'/);
+      });
+
+      test('rewrites files with a babel codemod', function () {
+        expectFile('node_modules/my-addon/legacy.js').matches(/function modern\(\)/);
+      });
+
+      test('warns about a regex that changed nothing', function (assert) {
+        assert.ok(
+          output.includes(
+            'the compat adapter for my-addon has a rewrite of return "new" in legacy.js, which left legacy.js unchanged'
+          ),
+          output
+        );
+      });
+
+      test('suppresses trees', function () {
+        expectFile('node_modules/my-addon/vendor/my-addon.js').doesNotExist();
+      });
+
+      test('adds package metadata', function () {
+        let meta = expectFile('node_modules/my-addon/package.json').json().get('ember-addon');
+        meta.get('implicit-modules').includes('./helpers/greeting.js');
+        meta.get('renamed-modules').deepEquals({ 'old-addon/index.js': 'my-addon/legacy.js' });
+        meta.get('externals').includes('some-global-thing');
+      });
+    });
+  });
@@ -0,0 +1,129 @@
+import { appScenarios, baseAddon } from './scenarios';
+import type { PreparedApp } from 'scenario-tester';
+import QUnit from 'qunit';
+import merge from 'lodash/merge';
+import { loadFromFixtureData } from './helpers';
+import { readdirSync, readFileSync, readJSONSync, writeFileSync, writeJSONSync } from 'fs-extra';
+import { join } from 'path';
+
+const { module: Qmodule, test } = QUnit;
+
+appScenarios
+  .only('release')
+  .map('compat-persistent-addon-cache', app => {
+    let addon = baseAddon();
+    addon.pkg.name = 'my-addon';
+    merge(addon.files, {
+      addon: {
+        helpers: {
+          'greeting.js': `export default function greeting() { return 'hello'; }`,
+        },
+      },
+    });
+    app.addDependency(addon);
+
+    let uncacheable = baseAddon();
+    uncacheable.pkg.name = 'uncacheable-addon';
+    merge(uncacheable.files, {
+      'index.js': `
+        'use strict';
+        module.exports = {
+          name: require('./package').name,
+          cacheKeyForTree() {
+            return undefined;
+          },
+        };
+      `,
+    });
+    app.addDependency(uncacheable);
+
+    app.pkg['ember-addon'] = { paths: ['lib/in-repo-addon'] };
+    merge(app.files, loadFromFixtureData('basic-in-repo-addon'));
+
+    merge(app.files, {
+      'ember-cli-build.js': `
+        'use strict';
+        const EmberApp = require('ember-cli/lib/broccoli/ember-app');
+        const { maybeEmbroider } = require('@embroider/test-setup');
+        const { V1Addon } = require('@embroider/compat');
+
+        class MyAddonAdapter extends V1Addon {
+          get packageMeta() {
+            return Object.assign({}, super.packageMeta, { 'adapter-version': 1 });
+          }
+        }
+
+        module.exports = function (defaults) {
+          let app = new EmberApp(defaults, {});
+          return maybeEmbroider(app, {
+            skipBabel: [{ package: 'qunit' }],
+            persistentAddonCache: true,
+            compatAdapters: new Map([['my-addon', MyAddonAdapter]]),
+          });
+        };
+      `,
+    });
+  })
+  .forEachScenario(scenario => {
+    Qmodule(scenario.name, function (hooks) {
+      let app: PreparedApp;
+
+      hooks.before(async () => {
+        app = await scenario.prepare();
+      });
+
+      async function build(assert: Assert): Promise<string> {
+        let result = await app.execute('ember build', {
+          env: { STAGE1_ONLY: 'true', DEBUG: 'embroider:debug' },
+        });
+        assert.equal(result.exitCode, 0, result.output);
+        return result.output;
+      }
+
+      function cacheEntries(prefix: string): string[] {
+        return readdirSync(join(app.dir, 'node_modules', '.embroider', 'addon-cache')).filter(name =>
+          name.startsWith(`${prefix}-`)
+        );
+      }
+
+      // these run in order, because each one leaves the cache in the state
+      // that the next one starts from
+      test('the first build converts the addon and the next one reuses it', async function (assert) {
+        assert.ok(/addon cache miss my-addon\b/.test(await build(assert)), 'cold build misses');
+        assert.equal(cacheEntries('my-addon').length, 1, 'cold build writes an entry');
+        assert.ok(/addon cache hit my-addon\b/.test(await build(assert)), 'warm build hits');
+        assert.equal(cacheEntries('my-addon').length, 1, 'warm build reuses the entry');
+      });
+
+      test('changing the addon package.json invalidates the entry', async function (assert) {
+        let pkgPath = join(app.dir, 'node_modules', 'my-addon', 'package.json');
+        let pkg = readJSONSync(pkgPath);
+        pkg.description = 'changed';
+        writeJSONSync(pkgPath, pkg);
+        assert.ok(/addon cache miss my-addon\b/.test(await build(assert)));
+        assert.equal(cacheEntries('my-addon').length, 2);
+      });
+
+      test('changing the compat adapter invalidates the entry', async function (assert) {
+        let buildFile = join(app.dir, 'ember-cli-build.js');
+        writeFileSync(
+          buildFile,
+          readFileSync(buildFile, 'utf8').replace(`'adapter-version': 1`, `'adapter-version': 2`)
+        );
+        assert.ok(/addon cache miss my-addon\b/.test(await build(assert)));
+        assert.equal(cacheEntries('my-addon').length, 3);
+      });
+
+      test('uncacheable addons are always converted', async function (assert) {
+        let output = await build(assert);
+        assert.ok(/addon cache: uncacheable-addon is uncacheable/.test(output));
+        assert.deepEqual(cacheEntries('uncacheable-addon'), []);
+      });
+
+      test('in-repo addons are always converted', async function (assert) {
+        let output = await build(assert);
+        assert.ok(/addon cache: in-repo-addon is uncacheable/.test(output));
+        assert.deepEqual(cacheEntries('in-repo-addon'), []);
+      });
+    });
+  });
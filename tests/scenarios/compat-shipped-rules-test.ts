@@ -0,0 +1,108 @@
+import type { PreparedApp } from 'scenario-tester';
+import { appScenarios, baseAddon } from './scenarios';
+import { throwOnWarnings } from '@embroider/core';
+import merge from 'lodash/merge';
+import QUnit from 'qunit';
+import { setupAuditTest } from '@embroider/test-support/audit-assertions';
+
+const { module: Qmodule, test } = QUnit;
+
+appScenarios
+  .only('release')
+  .map('compat-shipped-rules', app => {
+    merge(app.files, {
+      'ember-cli-build.js': `
+        'use strict';
+        const EmberApp = require('ember-cli/lib/broccoli/ember-app');
+        const { maybeEmbroider } = require('@embroider/test-setup');
+        module.exports = function (defaults) {
+          let app = new EmberApp(defaults, {});
+          return maybeEmbroider(app, {
+            staticComponents: true,
+            staticHelpers: true,
+            skipBabel: [{ package: 'qunit' }],
+          });
+        };
+      `,
+      app: {
+        templates: {
+          'index.hbs': `<HelloWorld @useDynamic="first-choice" />`,
+          components: {
+            'first-choice.hbs': 'first',
+          },
+        },
+      },
+    });
+
+    let addon = baseAddon();
+    addon.pkg.name = 'my-addon';
+    merge(addon.pkg, {
+      'ember-addon': {
+        'embroider-rules': [
+          {
+            components: {
+              '<HelloWorld />': {
+                acceptsComponentArguments: [{ name: 'useDynamic', becomes: 'dynamicComponentName' }],
+                layout: {
+                  addonPath: 'templates/components/hello-world.hbs',
+                },
+              },
+            },
+          },
+        ],
+      },
+    });
+    merge(addon.files, {
+      addon: {
+        components: {
+          'hello-world.js': `
+            import Component from '@ember/component';
+            import layout from '../templates/components/hello-world';
+            import computed from '@ember/object/computed';
+            export default Component.extend({
+              dynamicComponentName: computed('useDynamic', function() {
+                return this.useDynamic || 'default-dynamic';
+              }),
+              layout
+            });
+          `,
+        },
+        templates: {
+          components: {
+            'hello-world.hbs': `{{component this.dynamicComponentName}}`,
+          },
+        },
+      },
+      app: {
+        components: {
+          'hello-world.js': `export { default } from 'my-addon/components/hello-world'`,
+        },
+      },
+    });
+    app.addDependency(addon);
+  })
+  .forEachScenario(scenario => {
+    Qmodule(scenario.name, function (hooks) {
+      throwOnWarnings(hooks);
+
+      let app: PreparedApp;
+
+      hooks.before(async () => {
+        app = await scenario.prepare();
+      });
+
+      let expectAudit = setupAuditTest(hooks, () => ({ app: app.dir }));
+
+      test('the rules that the addon ships cover its dynamic component', function () {
+        expectAudit.hasNoFindings();
+      });
+
+      test('the component argument resolves through the shipped rules', function () {
+        expectAudit
+          .module('./templates/index.hbs')
+          .resolves('#embroider_compat/components/first-choice')
+          .toModule()
+          .isTemplateOnlyComponent('./templates/components/first-choice.hbs');
+      });
+    });
+  });
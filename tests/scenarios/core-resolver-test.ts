@@ -1,5 +1,5 @@
 import type { AddonMeta, AppMeta, RewrittenPackageIndex } from '@embroider/shared-internals';
-import { outputFileSync, readJsonSync, writeJSONSync } from 'fs-extra';
+import { outputFileSync, readdirSync, readJsonSync, writeJSONSync } from 'fs-extra';
 import { resolve, sep } from 'path';
 import QUnit from 'qunit';
 import type { PreparedApp } from 'scenario-tester';
@@ -7,6 +7,8 @@ import { Project, Scenarios } from 'scenario-tester';
 import type { CompatResolverOptions } from '@embroider/compat/src/resolver-transform';
 import type { ExpectAuditResults } from '@embroider/test-support/audit-assertions';
 import { installAuditAssertions } from '@embroider/test-support/audit-assertions';
+import { Resolver, ResolverLoader } from '@embroider/core';
+import { ResolutionCache } from '@embroider/core/src/resolution-cache';
 import { baseAddon } from './scenarios';
 
 const { module: Qmodule, test } = QUnit;
@@ -59,6 +61,7 @@ Scenarios.fromProject(() => new Project())
         renamePackages?: Record<string, string>;
         addonMeta?: Partial<AddonMeta>;
         fastbootFiles?: { [appName: string]: { localFilename: string; shadowedFilename: string | undefined } };
+        persistentResolutionCache?: boolean;
       }
 
       let configure: (opts?: ConfigureOpts) => Promise<void>;
@@ -117,6 +120,7 @@ Scenarios.fromProject(() => new Project())
             ],
             modulePrefix: 'my-app',
             podModulePrefix: opts?.podModulePrefix,
+            persistentResolutionCache: opts?.persistentResolutionCache,
             options: {
               staticComponents: false,
               staticHelpers: false,
@@ -831,5 +835,155 @@ Scenarios.fromProject(() => new Project())
             .resolves('a-v1-addon/-embroider-implicit-modules.js');
         });
       });
+
+      Qmodule('persistent resolution cache', function () {
+        function resolverOptions(): CompatResolverOptions {
+          return readJsonSync(resolve(app.dir, 'node_modules/.embroider/resolver.json'));
+        }
+
+        test('resolutions are written to disk and reused', async function (assert) {
+          givenFiles({
+            'node_modules/my-addon/_app_/hello-world.js': '',
+            'app.js': `import "my-app/hello-world"`,
+          });
+
+          await configure({
+            persistentResolutionCache: true,
+            addonMeta: {
+              'app-js': { './hello-world.js': './_app_/hello-world.js' },
+            },
+          });
+
+          let options = resolverOptions();
+          let first = new Resolver(options).nodeResolve('my-app/hello-world', resolve(app.dir, 'app.js'));
+          assert.deepEqual(first, {
+            type: 'real',
+            filename: resolve(app.dir, 'node_modules/my-addon/_app_/hello-world.js'),
+          });
+          ResolutionCache.shared(options).save();
+
+          let cacheDir = resolve(app.dir, 'node_modules/.embroider/resolution-cache');
+          let [cacheFile] = readdirSync(cacheDir);
+          let entries = readJsonSync(resolve(cacheDir, cacheFile));
+          assert.deepEqual(entries[`${resolve(app.dir, 'app.js')}\0my-app/hello-world`], {
+            failed: [{ specifier: './hello-world', fromFile: resolve(app.dir, 'package.json'), isVirtual: false }],
+            found: {
+              specifier: 'my-addon/_app_/hello-world.js',
+              fromFile: resolve(app.dir, 'package.json'),
+              isVirtual: false,
+            },
+          });
+
+          let second = new Resolver(options).nodeResolve('my-app/hello-world', resolve(app.dir, 'app.js'));
+          assert.deepEqual(second, first);
+        });
+
+        test('a new file that shadows a cached resolution wins', async function (assert) {
+          givenFiles({
+            'node_modules/my-addon/_app_/hello-world.js': '',
+            'app.js': `import "my-app/hello-world"`,
+          });
+
+          await configure({
+            persistentResolutionCache: true,
+            addonMeta: {
+              'app-js': { './hello-world.js': './_app_/hello-world.js' },
+            },
+          });
+
+          let options = resolverOptions();
+          new Resolver(options).nodeResolve('my-app/hello-world', resolve(app.dir, 'app.js'));
+
+          givenFiles({ 'hello-world.js': '' });
+          assert.deepEqual(new Resolver(options).nodeResolve('my-app/hello-world', resolve(app.dir, 'app.js')), {
+            type: 'real',
+            filename: resolve(app.dir, 'hello-world.js'),
+          });
+        });
+      });
+
+      Qmodule('explain', function () {
+        test('records the steps that rewrote a request', async function (assert) {
+          givenFiles({
+            'components/hello-world.js': '',
+            'app.js': `import "#embroider_compat/components/hello-world"`,
+          });
+
+          await configure();
+
+          let explanation = new ResolverLoader(app.dir).resolver.explain(
+            '#embroider_compat/components/hello-world',
+            resolve(app.dir, 'app.js')
+          );
+          assert.deepEqual(explanation.result, {
+            type: 'real',
+            filename: resolve(app.dir, 'components/hello-world.js'),
+          });
+
+          let transition = explanation.events.find(e => e.type === 'transition' && e.step === 'handleGlobalsCompat');
+          if (transition?.type !== 'transition') {
+            throw new Error('expected a handleGlobalsCompat transition');
+          }
+          assert.strictEqual(transition.phase, 'beforeResolve');
+          assert.strictEqual(transition.reason, 'resolveComponent found only JS');
+          assert.strictEqual(transition.before.specifier, '#embroider_compat/components/hello-world');
+          assert.strictEqual(transition.after.specifier, resolve(app.dir, 'components/hello-world.js'));
+        });
+
+        test('records defaultResolve attempts and fallbacks', async function (assert) {
+          givenFiles({
+            'node_modules/my-addon/_app_/hello-world.js': '',
+            'app.js': `import "my-app/hello-world"`,
+          });
+
+          await configure({
+            addonMeta: {
+              'app-js': { './hello-world.js': './_app_/hello-world.js' },
+            },
+          });
+
+          let explanation = new ResolverLoader(app.dir).resolver.explain(
+            'my-app/hello-world',
+            resolve(app.dir, 'app.js')
+          );
+          assert.deepEqual(explanation.result, {
+            type: 'real',
+            filename: resolve(app.dir, 'node_modules/my-addon/_app_/hello-world.js'),
+          });
+          assert.deepEqual(
+            explanation.events.map(e =>
+              e.type === 'transition' ? `${e.step}: ${e.reason}` : `${e.type}: ${e.result.type}`
+            ),
+            [
+              'handleRenaming: v1 self-import',
+              'defaultResolve: not_found',
+              'fallbackResolve: fallbackResolve: relative appJsMatch',
+              'defaultResolve: found',
+            ]
+          );
+        });
+
+        test('reports failures', async function (assert) {
+          givenFiles({
+            'app.js': '',
+          });
+
+          await configure();
+
+          let explanation = new ResolverLoader(app.dir).resolver.explain(
+            './does-not-exist',
+            resolve(app.dir, 'app.js')
+          );
+          assert.strictEqual(explanation.result.type, 'not_found');
+          assert.deepEqual(explanation.events[explanation.events.length - 1], {
+            type: 'transition',
+            phase: 'fallbackResolve',
+            step: 'fallbackResolve',
+            reason: 'fallbackResolve: relative appJs search failure',
+            before: { specifier: './does-not-exist', fromFile: resolve(app.dir, 'app.js'), isVirtual: false },
+            after: { specifier: './does-not-exist', fromFile: resolve(app.dir, 'app.js'), isVirtual: false },
+          });
+        });
+      });
     });
   });
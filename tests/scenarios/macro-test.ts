@@ -143,6 +143,56 @@ appScenarios
     });
   });
 
+appScenarios
+  .only('release')
+  .map('macro-template-runtime-mode', project => {
+    project.linkDevDependency('@embroider/macros', { baseDir: __dirname });
+    merge(project.files, {
+      app: {
+        templates: {
+          'index.hbs': `<TestingBadge />`,
+          components: {
+            'testing-badge.hbs': `{{#if (macroIsTesting)}}badge-testing{{else}}badge-not-testing{{/if}}`,
+          },
+        },
+      },
+    });
+  })
+  .forEachScenario(scenario => {
+    Qmodule(scenario.name, function (hooks) {
+      let app: PreparedApp;
+
+      hooks.before(async () => {
+        app = await scenario.prepare();
+      });
+
+      function builtJavascript() {
+        let assets = join(app.dir, 'dist', 'assets');
+        return fs
+          .readdirSync(assets)
+          .filter(name => name.endsWith('.js'))
+          .map(name => fs.readFileSync(join(assets, name), 'utf8'))
+          .join('\n');
+      }
+
+      test(`pnpm build development`, async function (assert) {
+        let result = await app.execute(`pnpm build`);
+        assert.equal(result.exitCode, 0, result.output);
+        let js = builtJavascript();
+        assert.ok(js.includes('badge-testing') && js.includes('badge-not-testing'), 'both branches are kept');
+        assert.ok(/\bisTesting\b/.test(js), 'the template asks the runtime isTesting');
+      });
+
+      test(`CLASSIC=true pnpm build development`, async function (assert) {
+        let result = await app.execute(`cross-env CLASSIC=true pnpm build`);
+        assert.equal(result.exitCode, 0, result.output);
+        let js = builtJavascript();
+        assert.ok(js.includes('badge-testing') && js.includes('badge-not-testing'), 'both branches are kept');
+        assert.ok(/\bisTesting\b/.test(js), 'the template asks the runtime isTesting');
+      });
+    });
+  });
+
 dummyAppScenarios
   .map('macro-sample-addon', project => {
     let addonFiles = loadFromFixtureData('macro-sample-addon');
@@ -119,10 +119,24 @@ let routerApp = tsAppScenarios.map('router', project => {
         'lazy-routes-test.ts': `
 
           import { module, test } from 'qunit';
-          import { visit } from '@ember/test-helpers';
+          import { visit, setupOnerror, resetOnerror, triggerEvent, waitUntil } from '@ember/test-helpers';
           import { setupApplicationTest } from 'ember-qunit';
           import ENV from 'ts-app-template/config/environment';
           import { getGlobalConfig, getOwnConfig } from '@embroider/macros';
+          import { LazyBundleLoadError } from '@embroider/router';
+          import type { PrefetchStrategy } from '@embroider/router';
+          import Router from 'ts-app-template/router';
+
+          interface LazyBundle {
+            names: string[];
+            loaded?: true;
+            load: () => Promise<void>;
+          }
+
+          function splitMeBundle(): LazyBundle {
+            let bundles = (window as any)._embroiderRouteBundles_ as LazyBundle[];
+            return bundles.find(bundle => bundle.names.includes('split-me'))!;
+          }
 
           /* global requirejs */
 
@@ -187,6 +201,23 @@ let routerApp = tsAppScenarios.map('router', project => {
               });
             }
 
+            if (!getOwnConfig<{ expectClassic: boolean }>().expectClassic) {
+              test('can prefetch a lazy route', async function (assert) {
+                await visit('/');
+                let router = this.owner.lookup('router:main') as Router;
+                await router.prefetch('split-me.child');
+                assert.ok(hasRoute('split-me'), 'route was prefetched');
+                assert.ok(hasRoute('split-me/child'), 'child route was prefetched');
+                assert.ok(hasComponent('used-in-child'), 'descendant components were prefetched');
+              });
+            } else {
+              test('prefetch does nothing in classic builds', async function (assert) {
+                await visit('/');
+                let router = this.owner.lookup('router:main') as Router;
+                assert.strictEqual(await router.prefetch('split-me.child'), undefined);
+              });
+            }
+
             if (getOwnConfig<{ expectClassic: boolean }>().expectClassic) {
               test('classic builds can not see @embroider/core config', async function (assert) {
                 let config = getGlobalConfig<{ '@embroider/core'?: { active: true} }>()['@embroider/core'];
@@ -219,6 +250,225 @@ let routerApp = tsAppScenarios.map('router', project => {
               );
             });
           });
+
+          if (!getOwnConfig<{ expectClassic: boolean }>().expectClassic) {
+            module('Acceptance | prefetch strategies', function (hooks) {
+              setupApplicationTest(hooks);
+
+              let bundle: LazyBundle;
+              let originalLoad: LazyBundle['load'];
+              let wasLoaded: true | undefined;
+              let loads: number;
+
+              // the router reads its prefetch strategy when it sets up, so each
+              // test registers its own router before visiting
+              function useRouter(owner: any, strategy: PrefetchStrategy, locationType: Router['location'] = 'none') {
+                owner.unregister('router:main');
+                owner.register(
+                  'router:main',
+                  class extends Router {
+                    prefetchStrategy = strategy;
+                    location = locationType;
+                  }
+                );
+              }
+
+              hooks.beforeEach(function () {
+                bundle = splitMeBundle();
+                originalLoad = bundle.load;
+                wasLoaded = bundle.loaded;
+                // earlier tests may have loaded the bundle already, and we want
+                // the router to need it again
+                delete bundle.loaded;
+                loads = 0;
+                bundle.load = () => {
+                  loads++;
+                  return originalLoad();
+                };
+              });
+
+              hooks.afterEach(function () {
+                bundle.load = originalLoad;
+                bundle.loaded = wasLoaded;
+                if (window.location.hash) {
+                  history.replaceState(null, '', window.location.pathname + window.location.search);
+                }
+              });
+
+              test('manual does not prefetch', async function (assert) {
+                useRouter(this.owner, 'manual');
+                await visit('/');
+                await triggerEvent('a[href="/split-me/child"]', 'mouseover');
+                assert.strictEqual(loads, 0);
+              });
+
+              test('hover prefetches when a link to a lazy route is hovered', async function (assert) {
+                useRouter(this.owner, 'hover');
+                await visit('/');
+                assert.strictEqual(loads, 0, 'nothing loaded up front');
+                await triggerEvent('a[href="/split-me/child"]', 'mouseover');
+                await waitUntil(() => loads > 0);
+                assert.strictEqual(loads, 1, 'hovering loaded the bundle');
+              });
+
+              test('hover understands links under hash location', async function (assert) {
+                useRouter(this.owner, 'hover', 'hash');
+                await visit('/');
+                await triggerEvent('a[href="#/split-me/child"]', 'mouseover');
+                await waitUntil(() => loads > 0);
+                assert.strictEqual(loads, 1, 'hovering loaded the bundle');
+              });
+
+              test('visible prefetches when a link to a lazy route scrolls into view', async function (assert) {
+                useRouter(this.owner, 'visible');
+                await visit('/');
+                document.querySelector('a[href="/split-me/child"]')!.scrollIntoView();
+                await waitUntil(() => loads > 0);
+                assert.strictEqual(loads, 1, 'the visible links loaded the bundle once');
+              });
+
+              test('idle prefetches every lazy bundle', async function (assert) {
+                useRouter(this.owner, 'idle');
+                await visit('/');
+                await waitUntil(() => loads > 0);
+                assert.strictEqual(loads, 1, 'the bundle loaded without any interaction');
+              });
+            });
+          }
+
+          if (!getOwnConfig<{ expectClassic: boolean }>().expectClassic) {
+            module('Acceptance | lazy bundle failures', function (hooks) {
+              setupApplicationTest(hooks);
+
+              let bundle: LazyBundle;
+              let originalLoad: LazyBundle['load'];
+              let wasLoaded: true | undefined;
+              let attempts: number[];
+              let failures: LazyBundleLoadError[];
+
+              async function bootRouter(owner: any): Promise<Router> {
+                await visit('/');
+                let router = owner.lookup('router:main') as Router;
+                router.lazyBundleRetryDelay = 20;
+                router.onLazyBundleLoadFailure = error => failures.push(error);
+                return router;
+              }
+
+              hooks.beforeEach(function () {
+                bundle = splitMeBundle();
+                originalLoad = bundle.load;
+                wasLoaded = bundle.loaded;
+                // earlier tests may have loaded the bundle already, and we want
+                // the router to need it again
+                delete bundle.loaded;
+                attempts = [];
+                failures = [];
+                bundle.load = () => {
+                  attempts.push(Date.now());
+                  return Promise.reject(new Error('the chunk is gone'));
+                };
+              });
+
+              hooks.afterEach(function () {
+                bundle.load = originalLoad;
+                bundle.loaded = wasLoaded;
+                resetOnerror();
+              });
+
+              test('retries with a growing delay before giving up', async function (assert) {
+                let router = await bootRouter(this.owner);
+                router.lazyBundleRetries = 2;
+                try {
+                  await router.prefetch('split-me');
+                  assert.ok(false, 'prefetch should have rejected');
+                } catch (err) {
+                  assert.ok(err instanceof LazyBundleLoadError, 'rejects with a LazyBundleLoadError');
+                  let error = err as LazyBundleLoadError;
+                  assert.strictEqual(error.routeName, 'split-me');
+                  assert.ok(error.bundleNames.includes('split-me'), 'names the routes in the bundle');
+                  assert.strictEqual(error.attempts, 3);
+                  assert.strictEqual((error.cause as Error).message, 'the chunk is gone');
+                }
+                assert.strictEqual(attempts.length, 3, 'tried once and retried twice');
+                assert.ok(attempts[1]! - attempts[0]! >= 19, 'waited before the first retry');
+                assert.ok(attempts[2]! - attempts[1]! >= 39, 'waited twice as long before the second retry');
+              });
+
+              test('does not retry a failed native import()', async function (assert) {
+                let router = await bootRouter(this.owner);
+                router.lazyBundleRetries = 2;
+                bundle.load = () => {
+                  attempts.push(Date.now());
+                  return Promise.reject(new TypeError('Failed to fetch dynamically imported module'));
+                };
+                try {
+                  await router.prefetch('split-me');
+                  assert.ok(false, 'prefetch should have rejected');
+                } catch (err) {
+                  assert.ok(err instanceof LazyBundleLoadError, 'rejects with a LazyBundleLoadError');
+                  assert.strictEqual((err as LazyBundleLoadError).attempts, 1);
+                }
+                assert.strictEqual(attempts.length, 1, 'the browser would not have fetched it again');
+              });
+
+              test('stops retrying once a load succeeds', async function (assert) {
+                let router = await bootRouter(this.owner);
+                router.lazyBundleRetries = 2;
+                bundle.load = () => {
+                  attempts.push(Date.now());
+                  bundle.load = originalLoad;
+                  return Promise.reject(new Error('the chunk is gone'));
+                };
+                await visit('/split-me');
+                assert.strictEqual(attempts.length, 1, 'the first attempt failed');
+                assert.ok(document.querySelector('[data-test-split-me-index]'), 'the retry loaded the route');
+                assert.deepEqual(failures, [], 'nothing was reported');
+              });
+
+              test('reports a failed transition to onLazyBundleLoadFailure', async function (assert) {
+                let router = await bootRouter(this.owner);
+                router.lazyBundleRetries = 0;
+                // the failed transition also goes to Ember.onerror
+                setupOnerror(() => {});
+                try {
+                  await visit('/split-me');
+                } catch {
+                  // visit rejects along with the transition
+                }
+                assert.strictEqual(failures.length, 1, 'the hook was called once');
+                assert.ok(failures[0] instanceof LazyBundleLoadError, 'with a LazyBundleLoadError');
+                assert.strictEqual(failures[0]!.attempts, 1);
+              });
+
+              test('rejects a failed transition without an onLazyBundleLoadFailure', async function (assert) {
+                let router = await bootRouter(this.owner);
+                router.lazyBundleRetries = 0;
+                delete router.onLazyBundleLoadFailure;
+                let errors: unknown[] = [];
+                setupOnerror(error => errors.push(error));
+                try {
+                  await visit('/split-me');
+                } catch {
+                  // visit rejects along with the transition
+                }
+                assert.strictEqual(errors.length, 1, 'the transition failed once');
+                assert.ok(errors[0] instanceof LazyBundleLoadError, 'with a LazyBundleLoadError');
+              });
+
+              test('does not report a failed prefetch', async function (assert) {
+                let router = await bootRouter(this.owner);
+                router.lazyBundleRetries = 0;
+                await assert.rejects(router.prefetch('split-me'), LazyBundleLoadError);
+                assert.deepEqual(failures, [], 'the hook was not called');
+
+                // the failed prefetch is forgotten, so the transition loads again
+                bundle.load = originalLoad;
+                await visit('/split-me');
+                assert.ok(document.querySelector('[data-test-split-me-index]'), 'split-me/index rendered');
+                assert.deepEqual(failures, [], 'still nothing was reported');
+              });
+            });
+          }
                   
           `,
       },
@@ -0,0 +1,117 @@
+import { baseV2Addon } from './scenarios';
+import type { PreparedApp } from 'scenario-tester';
+import { Scenarios } from 'scenario-tester';
+import QUnit from 'qunit';
+import merge from 'lodash/merge';
+import type { ExpectFile } from '@embroider/test-support/file-assertions/qunit';
+import { expectFilesAt } from '@embroider/test-support/file-assertions/qunit';
+
+const { module: Qmodule, test } = QUnit;
+
+Scenarios.fromProject(() => baseV2Addon())
+  .map('v2-addon-dev-declarations', async addon => {
+    addon.pkg.name = 'v2-addon';
+    merge(addon.files, {
+      'babel.config.json': `
+        {
+          "plugins": [
+            "@babel/plugin-transform-typescript",
+            "@embroider/addon-dev/template-colocation-plugin"
+          ]
+        }
+      `,
+      'tsconfig.json': `
+        {
+          "compilerOptions": {
+            "rootDir": "./src",
+            "module": "ESNext",
+            "target": "ESNext",
+            "moduleResolution": "node",
+            "strict": true,
+            // declarations() decides where its output goes
+            "declarationDir": "not-here"
+          },
+          "include": ["src/**/*.ts"]
+        }
+      `,
+      'rollup.config.mjs': `
+        import { babel } from '@rollup/plugin-babel';
+        import { Addon } from '@embroider/addon-dev/rollup';
+
+        const addon = new Addon({
+          srcDir: 'src',
+          destDir: 'dist',
+        });
+
+        export default {
+          output: addon.output(),
+          plugins: [
+            addon.publicEntrypoints(['**/*.js']),
+            addon.dependencies(),
+            addon.hbs(),
+            babel({ babelHelpers: 'bundled', extensions: ['.js', '.ts', '.hbs'] }),
+            addon.declarations('types'),
+            addon.clean(),
+          ],
+        };
+      `,
+      src: {
+        'index.ts': `
+          export function greet(name: string): string {
+            return 'hello ' + name;
+          }
+        `,
+        utils: {
+          'math.ts': `
+            export function double(n: number): number {
+              return n * 2;
+            }
+          `,
+        },
+        components: {
+          'hello.hbs': `<p>hello</p>`,
+        },
+      },
+    });
+
+    addon.linkDependency('@embroider/addon-dev', { baseDir: __dirname });
+    addon.linkDevDependency('@babel/core', { baseDir: __dirname });
+    addon.linkDevDependency('@babel/plugin-transform-typescript', { baseDir: __dirname });
+    addon.linkDevDependency('@rollup/plugin-babel', { baseDir: __dirname });
+    addon.linkDevDependency('rollup', { baseDir: __dirname });
+    addon.linkDevDependency('typescript', { baseDir: __dirname });
+  })
+  .forEachScenario(scenario => {
+    Qmodule(scenario.name, function (hooks) {
+      let addon: PreparedApp;
+      let output: string;
+      let expectFile: ExpectFile;
+
+      hooks.before(async () => {
+        addon = await scenario.prepare();
+        let result = await addon.execute('node ./node_modules/rollup/dist/bin/rollup -c ./rollup.config.mjs');
+        if (result.exitCode !== 0) {
+          throw new Error(result.output);
+        }
+        output = result.output;
+      });
+
+      hooks.beforeEach(assert => {
+        expectFile = expectFilesAt(addon.dir, { qunit: assert });
+      });
+
+      test('emits declarations for the public entrypoints into the given directory', function () {
+        expectFile('types/index.d.ts').matches('export declare function greet(name: string): string;');
+        expectFile('types/utils/math.d.ts').matches('export declare function double(n: number): number;');
+        expectFile('not-here').doesNotExist();
+      });
+
+      test('declares template-only components', function () {
+        expectFile('types/components/hello.d.ts').matches('TemplateOnlyComponent');
+      });
+
+      test('every entrypoint got a declaration', function (assert) {
+        assert.notOk(output.includes('no type declarations were generated'), output);
+      });
+    });
+  });
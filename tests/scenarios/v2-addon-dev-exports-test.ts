@@ -0,0 +1,126 @@
+import { baseV2Addon } from './scenarios';
+import type { PreparedApp } from 'scenario-tester';
+import { Scenarios } from 'scenario-tester';
+import QUnit from 'qunit';
+import merge from 'lodash/merge';
+import { readJSONSync, writeJSONSync } from 'fs-extra';
+import { join } from 'path';
+import type { ExpectFile } from '@embroider/test-support/file-assertions/qunit';
+import { expectFilesAt } from '@embroider/test-support/file-assertions/qunit';
+
+const { module: Qmodule, test } = QUnit;
+
+Scenarios.fromProject(() => baseV2Addon())
+  .map('v2-addon-dev-exports', async addon => {
+    addon.pkg.name = 'v2-addon';
+    addon.pkg.exports = {
+      './*': { types: './declarations/*.d.ts', default: './dist/*.js' },
+      './styles.css': './styles.css',
+      './old': './dist/old.js',
+      './package.json': './package.json',
+    };
+    merge(addon.files, {
+      'rollup.config.mjs': `
+        import { Addon } from '@embroider/addon-dev/rollup';
+
+        const addon = new Addon({
+          srcDir: 'src',
+          destDir: 'dist',
+        });
+
+        export default {
+          output: addon.output(),
+          plugins: [
+            addon.publicEntrypoints(['**/*.js']),
+            addon.exports({ declarationsDir: 'declarations', lint: Boolean(process.env.LINT) }),
+            addon.clean(),
+          ],
+        };
+      `,
+      'styles.css': `.hello { color: red }`,
+      src: {
+        'index.js': `export function greet(name) { return 'hello ' + name; }`,
+        components: {
+          'hello.js': `export default class Hello {}`,
+        },
+      },
+    });
+
+    addon.linkDependency('@embroider/addon-dev', { baseDir: __dirname });
+    addon.linkDevDependency('rollup', { baseDir: __dirname });
+  })
+  .forEachScenario(scenario => {
+    Qmodule(scenario.name, function (hooks) {
+      let addon: PreparedApp;
+      let output: string;
+      let expectFile: ExpectFile;
+
+      function build(lint = false) {
+        return addon.execute('node ./node_modules/rollup/dist/bin/rollup -c ./rollup.config.mjs', {
+          env: lint ? { LINT: 'true' } : {},
+        });
+      }
+
+      hooks.before(async () => {
+        addon = await scenario.prepare();
+        let result = await build();
+        if (result.exitCode !== 0) {
+          throw new Error(result.output);
+        }
+        output = result.output;
+      });
+
+      hooks.beforeEach(assert => {
+        expectFile = expectFilesAt(addon.dir, { qunit: assert });
+      });
+
+      test('every entrypoint gets a types condition', function () {
+        expectFile('package.json')
+          .json('exports')
+          .deepEquals({
+            '.': { types: './declarations/index.d.ts', default: './dist/index.js' },
+            './components/hello': {
+              types: './declarations/components/hello.d.ts',
+              default: './dist/components/hello.js',
+            },
+            './addon-main.js': './addon-main.js',
+            './package.json': './package.json',
+            './*': { types: './declarations/*.d.ts', default: './dist/*.js' },
+            './styles.css': './styles.css',
+          });
+        expectFile('package.json')
+          .json('typesVersions')
+          .deepEquals({ '*': { '*': ['declarations/*'] } });
+      });
+
+      test('entries for entrypoints that no longer exist are removed with a warning', function (assert) {
+        assert.ok(
+          output.includes(`removing "./old" from package.json "exports" because it's not a public entrypoint anymore`),
+          output
+        );
+      });
+
+      test('lint accepts the same exports in a different order', async function (assert) {
+        let pkgFile = join(addon.dir, 'package.json');
+        let pkg = readJSONSync(pkgFile);
+        pkg.exports = Object.fromEntries(Object.entries(pkg.exports).reverse());
+        writeJSONSync(pkgFile, pkg, { spaces: 2 });
+
+        let result = await build(true);
+        assert.equal(result.exitCode, 0, result.output);
+        assert.deepEqual(Object.keys(readJSONSync(pkgFile).exports), Object.keys(pkg.exports));
+      });
+
+      test('lint fails when exports are out of date', async function (assert) {
+        let pkgFile = join(addon.dir, 'package.json');
+        let pkg = readJSONSync(pkgFile);
+        delete pkg.exports['./components/hello'];
+        writeJSONSync(pkgFile, pkg, { spaces: 2 });
+
+        let result = await build(true);
+        assert.notEqual(result.exitCode, 0);
+        assert.ok(result.output.includes('package.json is out of date with the built addon'), result.output);
+        assert.deepEqual(readJSONSync(pkgFile), pkg, 'package.json was left alone');
+      });
+    });
+  });
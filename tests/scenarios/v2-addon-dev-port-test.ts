@@ -0,0 +1,142 @@
+import { ensureSymlinkSync, readJSONSync } from 'fs-extra';
+import { baseAddon } from './scenarios';
+import type { PreparedApp } from 'scenario-tester';
+import { Scenarios } from 'scenario-tester';
+import QUnit from 'qunit';
+import merge from 'lodash/merge';
+import type { ExpectFile } from '@embroider/test-support/file-assertions/qunit';
+import { expectFilesAt } from '@embroider/test-support/file-assertions/qunit';
+
+const { module: Qmodule, test } = QUnit;
+
+// the dummy app's devDependencies are what the ported test app builds with
+Scenarios.fromProject(() => baseAddon('dummy-app'))
+  .map('v2-addon-dev-port', async addon => {
+    addon.pkg.name = 'my-v1-addon';
+    merge(addon.files, {
+      'index.js': `
+        module.exports = {
+          name: require('./package').name,
+          contentFor() {},
+        };
+      `,
+      addon: {
+        components: {
+          'hello.hbs': `<p>hello</p>`,
+        },
+        styles: {
+          'addon.css': `p { color: red; }`,
+        },
+      },
+      'addon-test-support': {
+        'index.js': `export function setupHello() {}`,
+      },
+      app: {
+        components: {
+          'hello.js': `export { default } from 'my-v1-addon/components/hello';`,
+        },
+        helpers: {
+          'not-a-reexport.js': `export default function notAReexport() {}`,
+        },
+      },
+      public: {
+        'logo.svg': `<svg></svg>`,
+      },
+    });
+    addon.linkDevDependency('@embroider/addon-dev', { baseDir: __dirname });
+    addon.linkDevDependency('@embroider/addon-shim', { baseDir: __dirname });
+    addon.linkDevDependency('@babel/plugin-proposal-decorators', { baseDir: __dirname });
+    addon.linkDevDependency('@babel/plugin-transform-class-properties', { baseDir: __dirname });
+    addon.linkDevDependency('@rollup/plugin-babel', { baseDir: __dirname });
+    addon.linkDevDependency('rollup', { baseDir: __dirname });
+  })
+  .forEachScenario(scenario => {
+    Qmodule(scenario.name, function (hooks) {
+      let addon: PreparedApp;
+      let output: string;
+      let expectFile: ExpectFile;
+
+      hooks.before(async () => {
+        addon = await scenario.prepare();
+        let result = await addon.execute('node ./node_modules/@embroider/addon-dev/src/commands.js port ported');
+        if (result.exitCode !== 0) {
+          throw new Error(result.output);
+        }
+        output = result.output;
+      });
+
+      hooks.beforeEach(assert => {
+        expectFile = expectFilesAt(`${addon.dir}/ported`, { qunit: assert });
+      });
+
+      test('moves the addon trees into src', function () {
+        expectFile('src/components/hello.hbs').exists();
+        expectFile('src/styles/addon.css').exists();
+        expectFile('src/test-support/index.js').exists();
+        expectFile('public/logo.svg').exists();
+        expectFile('src/helpers/not-a-reexport.js').doesNotExist();
+      });
+
+      test('writes a v2 package.json that ember-cli loads through the shim', function () {
+        expectFile('package.json').json('ember-addon').deepEquals({ type: 'addon', version: 2, main: 'addon-main.js' });
+        expectFile('package.json')
+          .json('dependencies')
+          .deepEquals({
+            '@embroider/addon-shim': `^${readJSONSync(require.resolve('@embroider/addon-shim/package.json')).version}`,
+          });
+        expectFile('addon-main.js').matches('addonV1Shim(__dirname)');
+        expectFile('package.json').json('scripts.prepare').equals('addon-dev link-test-app --testAppDir test-app');
+        // the test app still needs the v1 addon's build dependencies
+        let v1Pkg = readJSONSync(`${addon.dir}/package.json`);
+        expectFile('package.json')
+          .json('devDependencies.ember-cli-babel')
+          .equals(v1Pkg.dependencies['ember-cli-babel']);
+        // the build tools get the ranges that addon-dev is tested against
+        let addonDevPkg = readJSONSync(`${addon.dir}/node_modules/@embroider/addon-dev/package.json`);
+        for (let name of ['@babel/core', '@rollup/plugin-babel', 'rollup']) {
+          expectFile('package.json').json(`devDependencies.${name}`).equals(addonDevPkg.devDependencies[name]);
+        }
+      });
+
+      test('configures rollup with the app reexports', function () {
+        expectFile('rollup.config.mjs').matches(`addon.appReexports(['components/hello.js'])`);
+        expectFile('rollup.config.mjs').matches(`addon.keepAssets(['**/*.css'])`);
+        expectFile('rollup.config.mjs').matches(`addon.publicAssets('public'`);
+      });
+
+      test('turns the dummy app into a test app', function () {
+        expectFile('test-app/package.json').json('name').equals('test-app');
+        expectFile('test-app/package.json').json('devDependencies.my-v1-addon').equals('*');
+        expectFile('package.json').json('devDependencies.my-v1-addon').equals(undefined);
+        expectFile('test-app/config/environment.js').matches(`modulePrefix: 'test-app'`);
+        expectFile('test-app/tests/test-helper.js').matches(`from 'test-app/app'`);
+        expectFile('test-app/ember-cli-build.js').matches(`new EmberApp(`);
+      });
+
+      test('reports what needs to be ported by hand', function (assert) {
+        assert.ok(output.includes('index.js implements "contentFor"'), output);
+        assert.ok(output.includes('app/helpers/not-a-reexport.js is not a plain reexport'), output);
+      });
+
+      test('the ported addon and its test app build', async function (assert) {
+        // stands in for installing the ported addon's dependencies
+        ensureSymlinkSync(`${addon.dir}/node_modules`, `${addon.dir}/ported/node_modules`, 'dir');
+
+        let result = await addon.execute(
+          'cd ported && node ./node_modules/rollup/dist/bin/rollup -c ./rollup.config.mjs'
+        );
+        assert.equal(result.exitCode, 0, result.output);
+        expectFile('dist/components/hello.js').exists();
+        expectFile('dist/_app_/components/hello.js').exists();
+
+        result = await addon.execute(
+          'cd ported && node ./node_modules/@embroider/addon-dev/src/commands.js link-test-app --testAppDir test-app'
+        );
+        assert.equal(result.exitCode, 0, result.output);
+
+        result = await addon.execute('cd ported/test-app && node ../node_modules/ember-cli/bin/ember build');
+        assert.equal(result.exitCode, 0, result.output);
+        expectFile('test-app/dist/assets/test-app.js').matches('test-app/components/hello');
+      });
+    });
+  });
@@ -68,6 +68,8 @@ appScenarios
               mapFilename: (name) => reexportMappings[name] || name,
             }),
 
+            addon.exports(),
+
             addon.hbs(),
             addon.gjs(),
             addon.dependencies(),
@@ -241,6 +243,28 @@ appScenarios
           });
         });
 
+        test('package.json exports are generated', async function () {
+          expectFile('package.json').json('exports').deepEquals({
+            './components/another': './dist/components/another.js',
+            './components/demo/button': './dist/components/demo/button.js',
+            './components/demo/index': './dist/components/demo/index.js',
+            './components/demo/namespace-me': './dist/components/demo/namespace-me.js',
+            './components/demo/out': './dist/components/demo/out.js',
+            './components/single-file-component': './dist/components/single-file-component.js',
+            './_app_/*': './dist/_app_/*',
+            './addon-main.js': './addon-main.js',
+            './package.json': './package.json',
+            './*': './dist/*.js',
+          });
+        });
+
+        test('the built addon passes verification', async function (assert) {
+          let result = await inDependency(app, 'v2-addon').execute(
+            'node ./node_modules/@embroider/addon-dev/src/commands.js verify'
+          );
+          assert.equal(result.exitCode, 0, result.output);
+        });
+
         test('the addon was built successfully', async function () {
           expectFile('dist/_app_/components/demo/index.js').matches(
             'export { default } from "v2-addon/components/demo/index"'
@@ -0,0 +1,142 @@
+import { baseV2Addon } from './scenarios';
+import type { Project } from 'scenario-tester';
+import { Scenarios } from 'scenario-tester';
+import QUnit from 'qunit';
+import merge from 'lodash/merge';
+
+const { module: Qmodule, test } = QUnit;
+
+// A built addon that passes verification, which each fixture below breaks in
+// one way.
+function builtAddon(addon: Project) {
+  addon.pkg.name = 'v2-addon';
+  addon.pkg.peerDependencies = { '@glimmer/component': '*' };
+  addon.pkg['ember-addon'] = {
+    version: 2,
+    type: 'addon',
+    main: 'addon-main.js',
+    'app-js': {
+      './components/hello.js': './dist/_app_/components/hello.js',
+    },
+  };
+  addon.pkg.exports = {
+    '.': './dist/index.js',
+    './*': './dist/*.js',
+    './addon-main.js': './addon-main.js',
+  };
+  merge(addon.files, {
+    dist: {
+      'index.js': `export { default as Hello } from './components/hello.js';`,
+      components: {
+        'hello.js': `
+          import Component from '@glimmer/component';
+          import { precompileTemplate } from '@ember/template-compilation';
+          import { setComponentTemplate } from '@ember/component';
+          export default class Hello extends Component {}
+          setComponentTemplate(precompileTemplate("hello"), Hello);
+        `,
+      },
+      _app_: {
+        components: {
+          'hello.js': `export { default } from "v2-addon/components/hello";`,
+        },
+      },
+    },
+  });
+  addon.linkDependency('@embroider/addon-dev', { baseDir: __dirname });
+}
+
+const fixtures: Record<string, { mutate: (addon: Project) => void; errors: string[] }> = {
+  clean: {
+    mutate() {},
+    errors: [],
+  },
+  'undeclared-dependency': {
+    mutate(addon) {
+      merge(addon.files, {
+        dist: {
+          'index.js': `
+            export { default as Hello } from './components/hello.js';
+            export { default as chunk } from 'lodash/chunk';
+            export const later = () => import('moment');
+          `,
+        },
+      });
+    },
+    errors: [
+      `dist/index.js imports "lodash/chunk", but lodash is not in dependencies or peerDependencies`,
+      `dist/index.js imports "moment", but moment is not in dependencies or peerDependencies`,
+    ],
+  },
+  'dev-dependency': {
+    mutate(addon) {
+      addon.addDevDependency('moment', '1.0.0');
+      merge(addon.files, { dist: { 'index.js': `import 'moment';` } });
+    },
+    errors: [`dist/index.js imports "moment", but moment is only a devDependency so it won't be installed`],
+  },
+  externals: {
+    mutate(addon) {
+      addon.pkg['ember-addon'].externals = ['moment'];
+      merge(addon.files, { dist: { 'index.js': `import 'moment';` } });
+    },
+    errors: [],
+  },
+  'missing-app-js-target': {
+    mutate(addon) {
+      addon.pkg['ember-addon']['app-js']['./components/gone.js'] = './dist/_app_/components/gone.js';
+    },
+    errors: [`"ember-addon.app-js" maps ./components/gone.js to ./dist/_app_/components/gone.js, which does not exist`],
+  },
+  'raw-hbs': {
+    mutate(addon) {
+      merge(addon.files, {
+        dist: {
+          components: {
+            'hello.js': `
+              import template from './hello.hbs';
+              export default template;
+            `,
+            'hello.hbs': `hello`,
+          },
+        },
+      });
+    },
+    errors: [
+      `dist/components/hello.hbs is a template that was never converted to Javascript`,
+      `dist/components/hello.js imports "./hello.hbs", but .hbs files aren't valid in a v2 addon's output`,
+    ],
+  },
+};
+
+Scenarios.fromProject(() => baseV2Addon())
+  .expand(
+    Object.fromEntries(
+      Object.entries(fixtures).map(([name, { mutate }]) => [
+        `v2-addon-dev-verify-${name}`,
+        (addon: Project) => {
+          builtAddon(addon);
+          mutate(addon);
+        },
+      ])
+    )
+  )
+  .forEachScenario(scenario => {
+    Qmodule(scenario.name, function () {
+      let { errors } = fixtures[scenario.name.replace('v2-addon-dev-verify-', '')];
+
+      test(errors.length ? 'verify reports the problem' : 'verify passes', async function (assert) {
+        let addon = await scenario.prepare();
+        let result = await addon.execute('node ./node_modules/@embroider/addon-dev/src/commands.js verify');
+        if (errors.length === 0) {
+          assert.equal(result.exitCode, 0, result.output);
+          assert.equal(result.output.trim(), '', 'no warnings either');
+        } else {
+          assert.notEqual(result.exitCode, 0, result.output);
+          for (let error of errors) {
+            assert.ok(result.output.includes(`error: ${error}`), `${error}\n\n${result.output}`);
+          }
+        }
+      });
+    });
+  });
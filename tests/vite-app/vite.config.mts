@@ -6,6 +6,8 @@ import {
   templateTag,
   addons,
   optimizeDeps,
+  routeBundles,
+  macros,
 } from "@embroider/vite";
 import { resolve } from "path";
 import { babel } from "@rollup/plugin-babel";
@@ -19,6 +21,8 @@ export default defineConfig({
     templateTag(),
     scripts(),
     resolver(),
+    routeBundles(),
+    macros(),
 
     babel({
       babelHelpers: "runtime",